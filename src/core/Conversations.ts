@@ -0,0 +1,64 @@
+import { Message, StoredConversation } from '../types';
+
+/**
+ * Shared record helpers for the conversation stores
+ */
+const TITLE_LENGTH = 80;
+
+/**
+ * History list title: the first thing the user said
+ */
+export function conversationTitle(message: Message): string {
+    if (message.type !== 'user') return '';
+    const text = message.content.trim();
+    return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text;
+}
+
+// IndexedDB structured-clones records; metadata may carry values that can't be cloned (functions, DOM nodes)
+export function toStoredMessage(message: Message): any {
+    return JSON.parse(JSON.stringify(message));
+}
+
+export function fromStoredMessage(data: any): Message {
+    // Convert timestamps back to Date objects
+    return { ...data, timestamp: new Date(data.timestamp) };
+}
+
+/**
+ * Combine two copies of a conversation by message id, oldest first
+ * The local copy of a message wins (it carries what this browser showed, e.g. an interruption)
+ */
+export function mergeMessages(local: Message[], remote: Message[]): Message[] {
+    const byId = new Map<string, Message>();
+    remote.forEach(message => byId.set(message.id, message));
+    local.forEach(message => byId.set(message.id, message));
+
+    return Array.from(byId.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Conversation list entry as returned by voice.getConversationHistory
+ */
+export function fromServerConversation(data: any): StoredConversation {
+    const createdAt = new Date(data.createdAt || data.startedAt || Date.now());
+    return {
+        sessionId: data.sessionId || data._id,
+        title: data.title || data.firstMessage || '',
+        messageCount: data.messageCount || 0,
+        createdAt,
+        updatedAt: new Date(data.updatedAt || data.endedAt || createdAt)
+    };
+}
+
+export function fromServerMessage(data: any, index: number): Message {
+    const timestamp = new Date(data.timestamp || data.createdAt || Date.now());
+    return {
+        id: data.id || data._id || `${timestamp.getTime()}-${index}`,
+        type: data.type || (data.role === 'user' ? 'user' : 'assistant'),
+        content: data.content || data.text || '',
+        timestamp,
+        source: data.source,
+        interrupted: data.interrupted,
+        metadata: data.metadata
+    };
+}
@@ -1,5 +1,16 @@
-import { ConnectionAdapter, ConnectionState, PluginConfig } from '../types';
+import { ConnectionAdapter, ConnectionState, ConversationContext, Message, PluginConfig, StoredConversation, SubscriptionHandle } from '../types';
+import { fromServerConversation, fromServerMessage } from './Conversations';
 import { EventEmitter } from './EventEmitter';
+import { DDPError } from './DDPError';
+import { LocalCollections } from './LocalCollections';
+import { TokenProvider } from './TokenProvider';
+import {
+    EXECUTION_LOGS_COLLECTION,
+    EXECUTION_LOGS_PUBLICATION,
+    TEXT_REPLIES_COLLECTION,
+    TEXT_REPLIES_PUBLICATION,
+    normalizeExecutionLog
+} from './ExecutionLogs';
 
 interface DDPMessage {
     msg: string;
@@ -12,6 +23,38 @@ interface DDPMessage {
     subs?: string[];
     collection?: string;
     fields?: any;
+    cleared?: string[];
+    session?: string;
+    methods?: string[];
+    reason?: string;
+}
+
+export interface DDPCallOptions {
+    timeout?: number;                          // Per-call timeout in ms (default: 30000)
+    retries?: number;                          // Extra attempts after a retryable failure; only used with idempotent (default: 0)
+    idempotent?: boolean;                      // Safe to run twice: a timed-out call may still be running on the server
+    retryDelay?: number;                       // Base delay between attempts in ms, doubled each time (default: 1000)
+    retryOn?: (error: DDPError) => boolean;    // Default: retry on 'timeout' and 'connection-lost'
+    waitForUpdated?: boolean;                  // Resolve only after both `result` and `updated` arrive
+}
+
+interface PendingCall {
+    method: string;
+    params: any[];
+    resolve: Function;
+    reject: Function;
+    timer: any;
+    waitForUpdated: boolean;
+    hasResult: boolean;
+    result?: any;
+    updated: boolean;
+}
+
+interface Subscription {
+    name: string;
+    params: any[];
+    ready: boolean;
+    readyCallbacks: Array<() => void>;
 }
 
 /**
@@ -19,37 +62,58 @@ interface DDPMessage {
  * Implements only the necessary DDP protocol features for voice/chat communication
  */
 export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
+    private static readonly DEFAULT_PENDING_CALL_DEADLINE_MS = 30000;
+    private static readonly INITIAL_RECONNECT_DELAY_MS = 1000;
+    private static readonly DEFAULT_CALL_TIMEOUT_MS = 30000;
+    private static readonly DEFAULT_RETRY_DELAY_MS = 1000;
+    private static readonly UNAUTHORIZED_ERRORS = ['unauthorized', 'not-authorized', '401', '403'];
+
     private config: PluginConfig;
+    private tokens: TokenProvider;
     private ws: WebSocket | null = null;
     private state: ConnectionState = 'disconnected';
     private messageId = 0;
-    private pendingCalls: Map<string, { resolve: Function; reject: Function }> = new Map();
-    private subscriptions: Map<string, string> = new Map();
+    private pendingCalls: Map<string, PendingCall> = new Map();
+    private subscriptions: Map<string, Subscription> = new Map();
     private heartbeatInterval: any = null;
-
-    constructor(config: PluginConfig) {
+    private sessionId: string | null = null; // DDP session from the 'connected' message, used to resume
+    private closedByUser = false;
+    private reconnectAttempts = 0;
+    private reconnectTimer: any = null;
+    private pendingDeadlineTimer: any = null;
+    private collections = new LocalCollections();
+    private executionLogs: SubscriptionHandle | null = null;
+    private textReplies: { sessionId: string; handle: SubscriptionHandle } | null = null;
+    private streamedReplies: Map<string, string> = new Map(); // Reply id -> content streamed so far
+    private deliveredReplies: Set<string> = new Set();
+
+    constructor(config: PluginConfig, tokens: TokenProvider = new TokenProvider(config.auth)) {
         super();
         this.config = config;
+        this.tokens = tokens;
+        this.tokens.on('refreshed', this.handleTokenRefreshed);
     }
 
+    // Registered while connected: the login goes over this socket
+    private passwordLogin = (): Promise<string> => this.loginWithPassword();
+
+    // Keep the DDP login in step with the refreshed token (password logins are already logged in)
+    private handleTokenRefreshed = (): void => {
+        if (this.state === 'connected' && this.config.auth?.type === 'token') {
+            this.authenticate();
+        }
+    };
+
     public async connect(): Promise<void> {
+        this.closedByUser = false;
+        if (this.config.auth?.type === 'password') {
+            this.tokens.setLoginHandler(this.passwordLogin);
+        }
+
         return new Promise((resolve, reject) => {
             try {
-                // Convert http(s) to ws(s) if needed
-                let wsUrl = this.config.endpoint;
-                if (wsUrl.startsWith('http://')) {
-                    wsUrl = wsUrl.replace('http://', 'ws://');
-                } else if (wsUrl.startsWith('https://')) {
-                    wsUrl = wsUrl.replace('https://', 'wss://');
-                }
-
-                // Add websocket path if not present
-                if (!wsUrl.includes('/websocket')) {
-                    wsUrl = wsUrl.replace(/\/$/, '') + '/websocket';
-                }
-
-                this.ws = new WebSocket(wsUrl);
-                this.setupWebSocketHandlers(resolve, reject);
+                this.state = 'connecting';
+                this.openSocket(resolve, reject);
             } catch (error) {
                 this.state = 'error';
                 reject(error);
@@ -57,7 +121,25 @@ export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
         });
     }
 
-    private setupWebSocketHandlers(resolve: Function, reject: Function): void {
+    private openSocket(resolve?: Function, reject?: Function): void {
+        // Convert http(s) to ws(s) if needed
+        let wsUrl = this.config.endpoint;
+        if (wsUrl.startsWith('http://')) {
+            wsUrl = wsUrl.replace('http://', 'ws://');
+        } else if (wsUrl.startsWith('https://')) {
+            wsUrl = wsUrl.replace('https://', 'wss://');
+        }
+
+        // Add websocket path if not present
+        if (!wsUrl.includes('/websocket')) {
+            wsUrl = wsUrl.replace(/\/$/, '') + '/websocket';
+        }
+
+        this.ws = new WebSocket(wsUrl);
+        this.setupWebSocketHandlers(resolve, reject);
+    }
+
+    private setupWebSocketHandlers(resolve?: Function, reject?: Function): void {
         if (!this.ws) return;
 
         this.ws.onopen = () => {
@@ -76,41 +158,148 @@ export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
 
         this.ws.onerror = (error) => {
             console.error('DDP: WebSocket error', error);
+
+            // Failed reconnect attempts are retried from onclose, don't surface each one
+            if (this.state === 'reconnecting') {
+                return;
+            }
+
             this.state = 'error';
             this.emit('error', error);
-            reject(error);
+            if (reject) {
+                reject(error);
+            }
         };
 
         this.ws.onclose = () => {
             console.log('DDP: WebSocket closed');
-            this.cleanup();
+            this.stopHeartbeat();
+
+            if (this.closedByUser) {
+                return;
+            }
+
+            if (this.config.features?.reconnect !== false && this.sessionId) {
+                this.scheduleReconnect();
+                return;
+            }
+
+            this.cleanup(new DDPError('connection-lost', 'DDP connection closed'));
             this.state = 'disconnected';
             this.emit('disconnect');
         };
     }
 
     private sendConnect(): void {
-        this.send({
+        const message: any = {
             msg: 'connect',
             version: '1',
             support: ['1', 'pre2', 'pre1']
+        };
+
+        // Ask the server to resume the previous session after a signaling blip
+        if (this.state === 'reconnecting' && this.sessionId) {
+            message.session = this.sessionId;
+        }
+
+        this.send(message);
+    }
+
+    private scheduleReconnect(): void {
+        const maxAttempts = this.config.features?.maxReconnectAttempts || 10;
+
+        if (this.reconnectAttempts >= maxAttempts) {
+            console.error('DDP: Max reconnection attempts reached');
+            this.cleanup(new DDPError('connection-lost', 'DDP connection lost'));
+            this.state = 'disconnected';
+            this.emit('disconnect');
+            return;
+        }
+
+        if (this.state !== 'reconnecting') {
+            this.state = 'reconnecting';
+            this.emit('reconnecting');
+            this.startPendingCallDeadline();
+        }
+
+        // Retry quickly first, then back off up to the configured interval
+        const delay = Math.min(
+            DDPAdapter.INITIAL_RECONNECT_DELAY_MS * Math.pow(2, this.reconnectAttempts),
+            this.config.features?.reconnectInterval || 5000
+        );
+
+        console.log(`DDP: Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts + 1}/${maxAttempts})`);
+        this.clearReconnectTimer();
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectAttempts++;
+            try {
+                this.openSocket();
+            } catch (error) {
+                console.error('DDP: Reconnect attempt failed', error);
+                this.scheduleReconnect();
+            }
+        }, delay);
+    }
+
+    private startPendingCallDeadline(): void {
+        this.clearPendingCallDeadline();
+
+        // Unacknowledged calls are kept for replay, but not forever
+        const deadline = this.config.features?.pendingCallDeadline || DDPAdapter.DEFAULT_PENDING_CALL_DEADLINE_MS;
+        this.pendingDeadlineTimer = setTimeout(() => {
+            console.warn(`DDP: Still disconnected after ${deadline}ms, rejecting pending calls`);
+            this.rejectPendingCalls(new DDPError('connection-lost', 'DDP connection lost'));
+        }, deadline);
+    }
+
+    private async handleReconnected(): Promise<void> {
+        console.log('DDP: Reconnected, restoring session state');
+        this.reconnectAttempts = 0;
+        this.clearReconnectTimer();
+        this.clearPendingCallDeadline();
+
+        // Login goes first so replayed methods run authenticated; a failed login doesn't hold up the rest
+        if (this.config.auth?.type !== 'anonymous') {
+            await this.authenticate();
+        }
+
+        // A new server session re-sends every document, so start from an empty cache
+        this.collections.clear();
+        this.subscriptions.forEach((sub, id) => {
+            sub.ready = false;
+            this.send({ msg: 'sub', name: sub.name, params: sub.params, id });
+        });
+
+        this.pendingCalls.forEach((call, id) => {
+            // Calls that already got their result are only waiting for `updated`
+            if (call.method === 'login' || call.hasResult) return;
+            this.send({ msg: 'method', method: call.method, params: call.params, id });
         });
+
+        console.log(`DDP: Restored ${this.subscriptions.size} subscriptions, replayed ${this.pendingCalls.size} calls`);
+        this.emit('reconnect');
     }
 
     private handleMessage(message: DDPMessage, connectResolve?: Function): void {
         switch (message.msg) {
-            case 'connected':
+            case 'connected': {
                 // Session ID received from server
+                const resumed = this.state === 'reconnecting';
+                this.sessionId = message.session || null;
                 this.state = 'connected';
                 this.startHeartbeat();
                 if (connectResolve) {
                     connectResolve();
                 }
-                // Authenticate if needed
-                if (this.config.auth?.type !== 'anonymous') {
+
+                if (resumed) {
+                    this.handleReconnected();
+                } else if (this.config.auth?.type !== 'anonymous') {
+                    // Authenticate if needed
                     this.authenticate();
                 }
                 break;
+            }
 
             case 'ping':
                 this.send({ msg: 'pong', id: message.id });
@@ -124,6 +313,10 @@ export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
                 this.handleMethodResult(message);
                 break;
 
+            case 'updated':
+                this.handleMethodsUpdated(message);
+                break;
+
             case 'added':
             case 'changed':
             case 'removed':
@@ -139,8 +332,8 @@ export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
                 break;
 
             case 'error':
-                console.error('DDP: Server error', message.error);
-                this.emit('error', new Error(message.error?.message || 'Server error'));
+                console.error('DDP: Server error', message.reason || message.error);
+                this.emit('error', new DDPError('server-error', message.reason || message.error?.message || 'Server error'));
                 break;
 
             default:
@@ -148,18 +341,67 @@ export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
         }
     }
 
+    /**
+     * Never rejects: a failed login is emitted as 'error' and the connection carries on unauthenticated
+     */
     private async authenticate(): Promise<void> {
         if (this.config.auth?.type === 'token' && this.config.auth.token) {
-            const token = typeof this.config.auth.token === 'function' 
-                ? await this.config.auth.token() 
-                : this.config.auth.token;
+            let token: string | undefined;
+            try {
+                token = await this.tokens.getToken();
+            } catch (error) {
+                console.error('DDP: Could not get a login token', error);
+                this.emit('error', error);
+                return;
+            }
 
             // Call login method with token
             this.call('login', [{ resume: token }]).catch(error => {
                 console.error('DDP: Authentication failed', error);
                 // For voice plugin, we might still work in anonymous mode
             });
+        } else if (this.config.auth?.type === 'password') {
+            // Returning users resume with the persisted token instead of sending the password again
+            const stored = this.tokens.getStoredToken();
+            if (stored) {
+                try {
+                    await this.call('login', [{ resume: stored }]);
+                    return;
+                } catch (error) {
+                    console.warn('DDP: Stored login token rejected, logging in with password', error);
+                    this.tokens.clear();
+                }
+            }
+
+            try {
+                await this.tokens.refresh();
+            } catch (error) {
+                console.error('DDP: Password login failed', error);
+                this.emit('error', error);
+            }
+        }
+    }
+
+    /**
+     * Meteor accounts-password login; the password only leaves the browser as a SHA-256 digest
+     */
+    private async loginWithPassword(): Promise<string> {
+        const { username, password } = this.config.auth?.credentials || {};
+        if (!username || !password) {
+            throw new Error('auth.credentials.username and auth.credentials.password are required');
         }
+
+        const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+        const digest = Array.from(new Uint8Array(hash))
+            .map(byte => byte.toString(16).padStart(2, '0'))
+            .join('');
+
+        const result = await this.call('login', [{
+            user: username.includes('@') ? { email: username } : { username },
+            password: { digest, algorithm: 'sha-256' }
+        }]);
+
+        return result.token;
     }
 
     private handleMethodResult(message: DDPMessage): void {
@@ -168,31 +410,66 @@ export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
         const pending = this.pendingCalls.get(message.id);
         if (!pending) return;
 
-        this.pendingCalls.delete(message.id);
-
         if (message.error) {
-            pending.reject(new Error(message.error.message || 'Method call failed'));
+            this.settleCall(message.id, DDPError.fromPayload(message.error));
+            return;
+        }
+
+        pending.hasResult = true;
+        pending.result = message.result;
+
+        if (!pending.waitForUpdated || pending.updated) {
+            this.settleCall(message.id);
+        }
+    }
+
+    private handleMethodsUpdated(message: DDPMessage): void {
+        (message.methods || []).forEach(id => {
+            const pending = this.pendingCalls.get(id);
+            if (!pending) return;
+
+            pending.updated = true;
+            if (pending.hasResult) {
+                this.settleCall(id);
+            }
+        });
+    }
+
+    private settleCall(id: string, error?: Error): void {
+        const pending = this.pendingCalls.get(id);
+        if (!pending) return;
+
+        clearTimeout(pending.timer);
+        this.pendingCalls.delete(id);
+
+        if (error) {
+            pending.reject(error);
         } else {
-            pending.resolve(message.result);
+            pending.resolve(pending.result);
         }
     }
 
     private handleCollectionChange(message: DDPMessage): void {
+        this.collections.apply(message);
+
         // Emit collection changes for the UI to handle
         this.emit('collection:change', {
             type: message.msg,
             collection: message.collection,
             id: message.id,
-            fields: message.fields
+            fields: message.fields,
+            cleared: message.cleared
         });
     }
 
     private handleSubscriptionReady(message: DDPMessage): void {
         if (message.subs) {
             message.subs.forEach(subId => {
-                const subName = this.subscriptions.get(subId);
-                if (subName) {
-                    this.emit('subscription:ready', subName);
+                const sub = this.subscriptions.get(subId);
+                if (sub) {
+                    sub.ready = true;
+                    sub.readyCallbacks.splice(0).forEach(callback => callback());
+                    this.emit('subscription:ready', sub.name, subId);
                 }
             });
         }
@@ -200,25 +477,144 @@ export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
 
     private handleSubscriptionError(message: DDPMessage): void {
         if (message.id) {
-            const subName = this.subscriptions.get(message.id);
-            if (subName) {
+            const sub = this.subscriptions.get(message.id);
+            if (sub) {
                 this.subscriptions.delete(message.id);
-                this.emit('subscription:error', subName, message.error);
+                this.emit('subscription:error', sub.name, message.error);
             }
         }
     }
 
-    public async sendMessage(text: string): Promise<void> {
-        // Text messages should be sent through WebRTC data channel, not DDP
-        // This is just a placeholder for the interface
-        throw new Error('Text messages should be sent through WebRTC connection. Use WebRTCManager.sendTextMessage()');
+    /**
+     * Text chat without WebRTC. Replies stream in through the voice.textReplies publication
+     */
+    public async sendMessage(text: string, sessionId?: string): Promise<void> {
+        if (sessionId) {
+            this.watchTextReplies(sessionId);
+        }
+
+        const result = await this.callWithToken('voice.sendTextMessage', token => [
+            this.config.workerId,
+            sessionId,
+            text,
+            token
+        ]);
+
+        // Servers without the publication answer in the method result
+        if (result?.content && !this.deliveredReplies.has(result.id)) {
+            // The reply document may still arrive on the publication
+            if (result.id) {
+                this.deliveredReplies.add(result.id);
+            }
+            this.emit('message', { ...result, type: 'assistant', source: 'text' });
+            this.emit('response:complete', result.content);
+        }
     }
 
-    public call(method: string, params: any[] = []): Promise<any> {
+    private watchTextReplies(sessionId: string): void {
+        if (this.textReplies?.sessionId === sessionId) {
+            return;
+        }
+
+        this.textReplies?.handle.stop();
+        this.streamedReplies.clear();
+        this.deliveredReplies.clear();
+
+        const handle = this.createSubscription(TEXT_REPLIES_PUBLICATION, [sessionId]);
+        handle.onChange(change => this.handleTextReply(change.doc), TEXT_REPLIES_COLLECTION);
+        this.textReplies = { sessionId, handle };
+    }
+
+    private handleTextReply(doc: any): void {
+        // Reply documents grow in place ({ _id, content, done }) and are re-added after a reconnect
+        if (!doc || this.deliveredReplies.has(doc._id)) {
+            return;
+        }
+
+        const content: string = doc.content || '';
+        const streamed = this.streamedReplies.get(doc._id) || '';
+        if (content.length > streamed.length && content.startsWith(streamed)) {
+            this.emit('text:delta', content.slice(streamed.length));
+        }
+
+        if (!doc.done) {
+            this.streamedReplies.set(doc._id, content);
+            return;
+        }
+
+        this.streamedReplies.delete(doc._id);
+        this.deliveredReplies.add(doc._id);
+        this.emit('message', {
+            id: doc._id,
+            type: 'assistant',
+            content,
+            timestamp: doc.timestamp,
+            source: 'text'
+        });
+        this.emit('response:complete', content);
+    }
+
+    /**
+     * A retry is a new method call under a new id, so after a timeout the first one may still run:
+     * only calls marked idempotent are retried (e.g. reads, not voice.sendTextMessage or message logging)
+     */
+    public async call(method: string, params: any[] = [], options: DDPCallOptions = {}): Promise<any> {
+        const retries = options.idempotent ? options.retries || 0 : 0;
+        if (options.retries && !options.idempotent) {
+            console.warn(`DDP: Not retrying ${method}, it is not marked idempotent`);
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.callOnce(method, params, options);
+            } catch (error) {
+                if (attempt >= retries || !this.isRetryable(error, options)) {
+                    throw error;
+                }
+
+                const delay = (options.retryDelay || DDPAdapter.DEFAULT_RETRY_DELAY_MS) * Math.pow(2, attempt);
+                console.warn(`DDP: ${method} failed (${(error as Error).message}), retrying in ${delay}ms`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    /**
+     * Call a method whose last param is the JWT, refreshing it once if the server rejects it
+     */
+    private callWithToken(method: string, buildParams: (token: string | undefined) => any[], options: DDPCallOptions = {}): Promise<any> {
+        return this.tokens.withRetry(
+            token => this.call(method, buildParams(token), options),
+            error => error instanceof DDPError && DDPAdapter.UNAUTHORIZED_ERRORS.includes(String(error.error))
+        );
+    }
+
+    private isRetryable(error: unknown, options: DDPCallOptions): boolean {
+        if (!(error instanceof DDPError)) return false;
+        if (options.retryOn) return options.retryOn(error);
+        return error.error === 'timeout' || error.error === 'connection-lost';
+    }
+
+    private callOnce(method: string, params: any[], options: DDPCallOptions): Promise<any> {
         return new Promise((resolve, reject) => {
             const id = this.getNextId();
-            
-            this.pendingCalls.set(id, { resolve, reject });
+            const timeout = options.timeout || DDPAdapter.DEFAULT_CALL_TIMEOUT_MS;
+
+            const timer = setTimeout(() => {
+                this.settleCall(id, new DDPError('timeout', `Method call timeout: ${method}`));
+            }, timeout);
+
+            // Kept until acknowledged so it can be replayed after a reconnect
+            this.pendingCalls.set(id, {
+                method,
+                params,
+                resolve,
+                reject,
+                timer,
+                waitForUpdated: !!options.waitForUpdated,
+                hasResult: false,
+                updated: false
+            });
             
             this.send({
                 msg: 'method',
@@ -226,21 +622,13 @@ export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
                 params,
                 id
             });
-
-            // Timeout after 30 seconds
-            setTimeout(() => {
-                if (this.pendingCalls.has(id)) {
-                    this.pendingCalls.delete(id);
-                    reject(new Error('Method call timeout'));
-                }
-            }, 30000);
         });
     }
 
     public subscribe(name: string, ...params: any[]): string {
         const id = this.getNextId();
         
-        this.subscriptions.set(id, name);
+        this.subscriptions.set(id, { name, params, ready: false, readyCallbacks: [] });
         
         this.send({
             msg: 'sub',
@@ -262,6 +650,62 @@ export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
         }
     }
 
+    /**
+     * Subscribe and get a handle onto the locally cached documents
+     */
+    public createSubscription(name: string, params: any[] = []): SubscriptionHandle {
+        const id = this.subscribe(name, ...params);
+        const listeners: Array<() => void> = [];
+
+        return {
+            id,
+            name,
+            ready: () => this.subscriptions.get(id)?.ready === true,
+            onReady: (callback) => {
+                const sub = this.subscriptions.get(id);
+                if (!sub) return;
+                if (sub.ready) {
+                    callback();
+                } else {
+                    sub.readyCallbacks.push(callback);
+                }
+            },
+            find: (collection = name, selector) => this.collections.find(collection, selector),
+            findOne: (collection, docId) => this.collections.findOne(collection, docId),
+            onChange: (callback, collection) => {
+                const off = this.collections.onChange(callback, collection);
+                listeners.push(off);
+                return off;
+            },
+            stop: () => {
+                listeners.splice(0).forEach(off => off());
+                this.unsubscribe(id);
+            }
+        };
+    }
+
+    /**
+     * Server-pushed replacement for REST polling of /api/v1/execution-logs
+     */
+    public watchExecutionLogs(executionId: string): void {
+        this.unwatchExecutionLogs();
+
+        const handle = this.createSubscription(EXECUTION_LOGS_PUBLICATION, [executionId]);
+        handle.onChange((change) => {
+            // Entries are append-only; re-adds after a reconnect are deduplicated by id downstream
+            if (change.type === 'added') {
+                this.emit('message', normalizeExecutionLog(change.doc));
+            }
+        }, EXECUTION_LOGS_COLLECTION);
+
+        this.executionLogs = handle;
+    }
+
+    public unwatchExecutionLogs(): void {
+        this.executionLogs?.stop();
+        this.executionLogs = null;
+    }
+
     private send(message: any): void {
         if (this.ws && this.ws.readyState === WebSocket.OPEN) {
             this.ws.send(JSON.stringify(message));
@@ -293,14 +737,42 @@ export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
         }
     }
 
-    private cleanup(): void {
+    private clearReconnectTimer(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+    }
+
+    private clearPendingCallDeadline(): void {
+        if (this.pendingDeadlineTimer) {
+            clearTimeout(this.pendingDeadlineTimer);
+            this.pendingDeadlineTimer = null;
+        }
+    }
+
+    private rejectPendingCalls(error: Error): void {
+        Array.from(this.pendingCalls.keys()).forEach(id => this.settleCall(id, error));
+    }
+
+    private cleanup(error: Error): void {
         this.stopHeartbeat();
-        this.pendingCalls.clear();
+        this.clearReconnectTimer();
+        this.clearPendingCallDeadline();
+        this.rejectPendingCalls(error);
         this.subscriptions.clear();
+        this.collections.clear();
+        this.executionLogs = null;
+        this.textReplies = null;
+        this.sessionId = null;
+        this.reconnectAttempts = 0;
     }
 
     public disconnect(): void {
-        this.cleanup();
+        this.closedByUser = true;
+        this.tokens.off('refreshed', this.handleTokenRefreshed);
+        this.tokens.removeLoginHandler(this.passwordLogin);
+        this.cleanup(new DDPError('disconnected', 'Disconnected'));
         
         if (this.ws) {
             this.ws.close();
@@ -315,23 +787,18 @@ export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
     }
 
     // Voice-specific methods
-    public async getEphemeralKey(): Promise<any> {
-        // Get JWT token if available
-        const jwtToken = this.getJwtToken();
-        
-        // Pass workerId, selectedVoice (undefined), and JWT token
-        return this.call('voice.getEphemeralKey', [
+    public async getEphemeralKey(context?: ConversationContext, voice?: string): Promise<any> {
+        // Pass workerId, selectedVoice (worker default when undefined), JWT token and visitor context
+        return this.callWithToken('voice.getEphemeralKey', jwtToken => [
             this.config.workerId,
-            undefined, // selectedVoice
-            jwtToken
+            voice,
+            jwtToken,
+            context
         ]);
     }
 
     public async processRealtimeToolCall(toolCall: any): Promise<any> {
-        // Get JWT token if available
-        const jwtToken = this.getJwtToken();
-
-        return this.call('voice.processRealtimeToolCall', [
+        return this.callWithToken('voice.processRealtimeToolCall', jwtToken => [
             toolCall,
             this.config.workerId,
             undefined, // sessionId
@@ -339,25 +806,37 @@ export class DDPAdapter extends EventEmitter implements ConnectionAdapter {
         ]);
     }
 
-    public async logConversationMessage(data: any): Promise<void> {
-        // Get JWT token if available
-        const jwtToken = this.getJwtToken();
+    /**
+     * Meteor logout: the server invalidates this connection's login token
+     */
+    public async logout(): Promise<void> {
+        if (this.state !== 'connected') return;
+        await this.call('logout', []);
+    }
 
-        return this.call('voice.logConversationMessage', [
+    public async logConversationMessage(data: any): Promise<void> {
+        return this.callWithToken('voice.logConversationMessage', jwtToken => [
             data,
             jwtToken
         ]);
     }
 
-    private getJwtToken(): string | undefined {
-        if (this.config.auth?.type === 'token' && this.config.auth.token) {
-            // If token is a function, it should return the JWT token
-            // If it's a string, use it directly
-            const token = typeof this.config.auth.token === 'string' 
-                ? this.config.auth.token 
-                : undefined;
-            return token;
-        }
-        return undefined;
+    // voice.getConversationHistory lists conversations without a sessionId, or returns one conversation's messages
+    public async listConversations(): Promise<StoredConversation[]> {
+        const result = await this.callWithToken('voice.getConversationHistory', jwtToken => [
+            this.config.workerId,
+            null,
+            jwtToken
+        ]);
+        return (result?.conversations || result || []).map(fromServerConversation);
+    }
+
+    public async getConversation(sessionId: string): Promise<Message[]> {
+        const result = await this.callWithToken('voice.getConversationHistory', jwtToken => [
+            this.config.workerId,
+            sessionId,
+            jwtToken
+        ]);
+        return (result?.messages || result || []).map(fromServerMessage);
     }
 }
\ No newline at end of file
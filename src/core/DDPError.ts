@@ -0,0 +1,33 @@
+/**
+ * Typed error for DDP method calls, mirroring Meteor.Error
+ * `error` is the machine-readable code (e.g. 'unauthorized', 'invalid-data'),
+ * plus client-side codes 'timeout', 'connection-lost' and 'disconnected'
+ */
+export class DDPError extends Error {
+    public readonly error: string | number;
+    public readonly reason?: string;
+    public readonly details?: any;
+
+    constructor(error: string | number, reason?: string, details?: any) {
+        // Same message format as Meteor.Error: "reason [error]"
+        super(reason ? `${reason} [${error}]` : `[${error}]`);
+        this.name = 'DDPError';
+        this.error = error;
+        this.reason = reason;
+        this.details = details;
+    }
+
+    /**
+     * Build from the `error` field of a DDP result or error message
+     */
+    public static fromPayload(payload: any): DDPError {
+        if (!payload) {
+            return new DDPError('unknown', 'Method call failed');
+        }
+        return new DDPError(
+            payload.error ?? 'unknown',
+            payload.reason || payload.message,
+            payload.details
+        );
+    }
+}
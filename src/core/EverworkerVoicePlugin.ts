@@ -2,14 +2,42 @@ import {
     PluginConfig, 
     ConnectionState, 
     Message,
-    ConnectionAdapter 
+    ConnectionAdapter,
+    SelectedCandidatePair,
+    ClientTool,
+    ToolConfirmationRequest,
+    ToolDecision,
+    ToolResult,
+    ToolCallActivity,
+    ToolRenderer,
+    SubscriptionHandle,
+    ConnectionTransport,
+    TransportSelection,
+    OAuthTokens,
+    ConversationContext,
+    UserContext,
+    PageContext,
+    SessionOptions,
+    AudioDevice,
+    AudioDeviceSelection,
+    AudioLevels,
+    ConversationSummary,
+    StoredConversation,
+    TranscriptFormat
 } from '../types';
 import { EventEmitter } from './EventEmitter';
 import { DDPAdapter } from './DDPAdapter';
+import { DDPError } from './DDPError';
 import { RESTAdapter } from './RESTAdapter';
 import { WebRTCManager } from '../voice/WebRTCManager';
+import { ToolRegistry } from '../voice/ToolRegistry';
+import { OpenAIRealtimeProvider } from '../voice/OpenAIRealtimeProvider';
 import { UIManager } from '../ui/UIManager';
 import { StorageManager } from './StorageManager';
+import { mergeMessages } from './Conversations';
+import { formatTranscript, TRANSCRIPT_FILES } from './Transcript';
+import { TokenProvider } from './TokenProvider';
+import { OAuthClient } from './OAuthClient';
 
 export class EverworkerVoicePlugin extends EventEmitter {
     // Timeout constants
@@ -18,11 +46,22 @@ export class EverworkerVoicePlugin extends EventEmitter {
     private static readonly SESSION_WARNING_BEFORE_MS = 60 * 1000;         // 1 minute
     private static readonly IDLE_GRACE_PERIOD_MS = 60 * 1000;              // 1 minute
 
+    private static readonly DEFAULT_TRANSPORTS: ConnectionTransport[] = ['ddp', 'rest'];
+    private static readonly DEFAULT_TRANSPORT_PROBE_TIMEOUT_MS = 5000;
+    private static readonly OAUTH_REFRESH_TOKEN_KEY = 'oauth-refresh-token';
+    private static readonly VOICE_STORAGE_KEY = 'voice';
+    private static readonly AUDIO_DEVICES_STORAGE_KEY = 'audio-devices';
+    private static readonly WELCOME_DISMISSED_KEY = 'welcome-dismissed';
+
     private config: PluginConfig;
     private connection: ConnectionAdapter | null = null;
     private webrtc: WebRTCManager | null = null;
     private ui: UIManager | null = null;
-    private storage: StorageManager;
+    public readonly storage: StorageManager;   // Exposed for debugging (storage.keys())
+    private tokens: TokenProvider;
+    private tools: ToolRegistry = new ToolRegistry();
+    private context: ConversationContext = {};
+    private audioDevices: AudioDeviceSelection = { input: null, output: null };
     private state: ConnectionState = 'disconnected';
     private messages: Message[] = [];
     private reconnectAttempts = 0;
@@ -33,6 +72,9 @@ export class EverworkerVoicePlugin extends EventEmitter {
     private sessionTimeoutTimer: any = null;
     private sessionWarningTimer: any = null;
     private sessionId: string | null = null;
+    private conversationId: string | null = null;   // Saved conversation new messages are written to
+    private resumeConversation = false;             // Next session continues conversationId instead of starting its own
+    private viewedConversation: { sessionId: string; messages: Message[] } | null = null;  // Open read-only in the chat panel
     private lastActivityTime: number | null = null;
     private idleTimeoutTimer: any = null;
     private idleGracePeriodTimer: any = null;
@@ -42,7 +84,22 @@ export class EverworkerVoicePlugin extends EventEmitter {
     constructor(config: PluginConfig) {
         super();
         this.config = this.validateConfig(config);
-        this.storage = new StorageManager(config.features?.persistence || 'none');
+        // Validated features: persistence defaults to 'session'
+        this.storage = new StorageManager(
+            this.config.features?.persistence || 'session',
+            { workerId: this.config.workerId, endpoint: this.config.endpoint, userId: this.getStorageUserId() },
+            this.config.features?.retention
+        );
+        // Shared by every adapter so a refresh in one is seen by all
+        this.tokens = new TokenProvider(this.config.auth, this.storage);
+        this.tokens.on('refreshed', () => this.emit('auth:refreshed'));
+        // A returning user's saved login says whose data to show
+        this.storage.setUserId(this.getStorageUserId(this.tokens.getStoredToken()));
+
+        if (this.config.auth?.type === 'oauth') {
+            const oauth = new OAuthClient(this.config.auth.oauth!);
+            this.tokens.setLoginHandler(() => this.loginWithOAuth(oauth));
+        }
         
         if (this.config.features?.autoConnect !== false) {
             this.init();
@@ -56,6 +113,9 @@ export class EverworkerVoicePlugin extends EventEmitter {
         if (!config.workerId) {
             throw new Error('Worker ID is required');
         }
+        if (config.auth?.type === 'oauth' && !config.auth.oauth) {
+            throw new Error('auth.oauth is required for OAuth login');
+        }
         
         // Set defaults
         const validated: PluginConfig = {
@@ -117,19 +177,68 @@ export class EverworkerVoicePlugin extends EventEmitter {
                 onStopVoice: this.stopVoiceInput.bind(this),
                 onToggleExpanded: this.handleToggleExpanded.bind(this),
                 onStartSession: this.startSession.bind(this),
-                onEndSession: this.endSession.bind(this)
+                onEndSession: this.endSession.bind(this),
+                onToolDecision: this.handleToolDecision.bind(this),
+                onVoiceChange: (voice: string) => this.updateSession({ voice: voice || undefined }),
+                onTalkStart: () => this.startTalking(),
+                onTalkEnd: () => this.stopTalking(),
+                onInputDeviceChange: (deviceId: string) => {
+                    this.setInputDevice(deviceId || null).catch(error => this.handleError(error));
+                },
+                onOutputDeviceChange: (deviceId: string) => {
+                    this.setOutputDevice(deviceId || null).catch(error => this.handleError(error));
+                },
+                onWelcomeDismissed: () => this.storage.saveSessionItem(EverworkerVoicePlugin.WELCOME_DISMISSED_KEY, true),
+                onShowHistory: () => {
+                    this.refreshConversationHistory().catch(error => this.handleError(error));
+                },
+                onOpenConversation: (sessionId: string, mode: 'view' | 'continue') => {
+                    this.openConversation(sessionId, mode).catch(error => this.handleError(error));
+                },
+                onCloseConversation: () => this.closeConversation(),
+                onDeleteConversation: (sessionId: string) => {
+                    this.deleteConversation(sessionId)
+                        .then(() => this.refreshConversationHistory())
+                        .catch(error => this.handleError(error));
+                },
+                onDownloadTranscript: (format: TranscriptFormat) => this.downloadTranscript(format)
             });
+            this.ui.setWelcomeDismissed(!!this.storage.loadSessionItem(EverworkerVoicePlugin.WELCOME_DISMISSED_KEY));
+            this.ui.setVoiceEnabled(this.config.features?.voice !== false);
+
+            // Voice picked in an earlier visit, unless the host page fixed one
+            const savedVoice = this.storage.loadConfig(EverworkerVoicePlugin.VOICE_STORAGE_KEY);
+            if (savedVoice && !this.config.session?.voice) {
+                this.config.session = { ...this.config.session, voice: savedVoice };
+            }
+            this.audioDevices = {
+                ...this.audioDevices,
+                ...this.storage.loadConfig(EverworkerVoicePlugin.AUDIO_DEVICES_STORAGE_KEY)
+            };
+            if (this.config.features?.voice !== false) {
+                this.ui.setVoiceOptions(this.getAvailableVoices(), this.config.session?.voice);
+                this.ui.setPushToTalk(this.getPushToTalkShortcut());
+            }
+
+            // Function tokens only tell whose data this is once resolved
+            if (typeof this.config.auth?.token === 'function') {
+                try {
+                    this.storage.setUserId(this.getStorageUserId(await this.tokens.getToken()));
+                } catch (error) {
+                    console.warn('⚠️ Plugin: Could not resolve the auth token to find saved conversations:', error);
+                }
+            }
 
-            // Load persisted messages
-            this.messages = await this.storage.loadMessages();
-            // Always call setMessages to trigger welcome message check
-            this.ui.setMessages(this.messages);
+            await this.restoreLatestConversation();
 
             // Don't auto-connect, wait for user to start session
             this.setState('disconnected');
             
             this.initialized = true;
             this.emit('initialized');
+
+            // Pick up a conversation started on another device (doesn't hold up init)
+            this.hydrateFromServer();
         } catch (error) {
             console.error('Failed to initialize plugin:', error);
             this.setState('error');
@@ -145,22 +254,20 @@ export class EverworkerVoicePlugin extends EventEmitter {
         this.setState('connecting');
 
         try {
-            // Try DDP first, fallback to REST
-            const isDDPEndpoint = this.config.endpoint.startsWith('ws');
-            
-            if (isDDPEndpoint) {
-                this.connection = new DDPAdapter(this.config);
-            } else {
-                this.connection = new RESTAdapter(this.config);
-            }
+            // Try DDP first, fallback to REST (configurable via features.transports)
+            this.connection = await this.negotiateTransport();
 
             // Set up connection event handlers
             this.connection.on('message', this.handleMessage.bind(this));
             this.connection.on('error', this.handleError.bind(this));
             this.connection.on('disconnect', this.handleDisconnect.bind(this));
+            // Adapters that resume on their own (DDP) keep the voice session alive meanwhile
+            this.connection.on('reconnecting', this.handleConnectionInterrupted.bind(this));
+            this.connection.on('reconnect', this.handleConnectionRestored.bind(this));
+            // Streamed replies to text messages sent without WebRTC
+            this.connection.on('text:delta', (delta: string) => this.ui?.showResponse(delta, true));
+            this.connection.on('response:complete', () => this.ui?.clearResponse());
 
-            await this.connection.connect();
-            
             // Initialize WebRTC if voice is enabled
             if (this.config.features?.voice) {
                 await this.initializeVoice();
@@ -180,10 +287,70 @@ export class EverworkerVoicePlugin extends EventEmitter {
         }
     }
 
+    /**
+     * Connect the first transport of the chain that works, starting with the one remembered for this endpoint
+     */
+    private async negotiateTransport(): Promise<ConnectionAdapter> {
+        const configured = this.config.features?.transports?.length
+            ? this.config.features.transports
+            : EverworkerVoicePlugin.DEFAULT_TRANSPORTS;
+        const remembered = this.storage.loadTransport(this.config.endpoint);
+        const chain = remembered && configured.includes(remembered)
+            ? [remembered, ...configured.filter(t => t !== remembered)]
+            : configured;
+        const failures: TransportSelection['failures'] = [];
+
+        for (const transport of chain) {
+            const adapter = transport === 'ddp'
+                ? new DDPAdapter(this.config, this.tokens)
+                : new RESTAdapter(this.config, this.tokens);
+
+            try {
+                console.log(`🔌 Plugin: Trying ${transport} transport...`);
+                await this.probeTransport(adapter);
+            } catch (error) {
+                console.warn(`⚠️ Plugin: ${transport} transport failed:`, error);
+                adapter.disconnect();
+                failures.push({ transport, error: error instanceof Error ? error.message : String(error) });
+                continue;
+            }
+
+            this.storage.saveTransport(this.config.endpoint, transport);
+
+            const selection: TransportSelection = {
+                transport,
+                fallback: transport !== configured[0],
+                remembered: transport === remembered,
+                failures
+            };
+            console.log(`✅ Plugin: Connected over ${transport}`, selection);
+            this.emit('transport:selected', selection);
+            return adapter;
+        }
+
+        throw new Error(`All transports failed: ${failures.map(f => `${f.transport} (${f.error})`).join(', ')}`);
+    }
+
+    private probeTransport(adapter: ConnectionAdapter): Promise<void> {
+        const timeout = this.config.features?.transportProbeTimeout || EverworkerVoicePlugin.DEFAULT_TRANSPORT_PROBE_TIMEOUT_MS;
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+
+            adapter.connect().then(
+                () => { clearTimeout(timer); resolve(); },
+                (error) => { clearTimeout(timer); reject(error); }
+            );
+        });
+    }
+
     private async initializeVoice(): Promise<void> {
         try {
             console.log('🎤 Plugin: Initializing voice features...');
-            this.webrtc = new WebRTCManager(this.config, this.connection!);
+            this.webrtc = new WebRTCManager(this.config, this.connection!, this.tools);
+            this.webrtc.setContext(this.context);
+            await this.webrtc.setInputDevice(this.audioDevices.input);
+            await this.webrtc.setOutputDevice(this.audioDevices.output);
             
             // Handle transcriptions
             this.webrtc.on('transcription', (text: string, isFinal: boolean) => {
@@ -228,6 +395,16 @@ export class EverworkerVoicePlugin extends EventEmitter {
                 }
             });
             
+            // The user talked over the assistant
+            this.webrtc.on('response:interrupted', (info: { itemId: string; audioEndMs: number; content: string }) => {
+                console.log('✋ Plugin: Response interrupted at', info.audioEndMs, 'ms');
+                accumulatedText = '';
+                if (this.ui) {
+                    this.ui.clearResponse();
+                }
+                this.emit('response:interrupted', info);
+            });
+
             // Handle speech events
             this.webrtc.on('speech:start', () => {
                 console.log('🎤 Plugin: Speech started');
@@ -245,6 +422,17 @@ export class EverworkerVoicePlugin extends EventEmitter {
                 }
             });
             
+            // Live mic/assistant levels for the visualizer and host page meters
+            this.webrtc.on('audio:level', (levels: AudioLevels) => {
+                this.ui?.setAudioLevels(levels);
+                this.emit('audio:level', levels);
+            });
+
+            // Microphones/speakers plugged in or removed (the session keeps running)
+            this.webrtc.on('devices:change', () => {
+                this.refreshAudioDevices();
+            });
+
             // Handle recording events
             this.webrtc.on('recording:start', () => {
                 console.log('🔴 Plugin: Recording started');
@@ -260,6 +448,45 @@ export class EverworkerVoicePlugin extends EventEmitter {
                 this.handleError(error);
             });
 
+            // Handle tool call activity (rendered inline in the transcript)
+            this.webrtc.on('tool:start', (activity: ToolCallActivity) => {
+                console.log('🔧 Plugin: Tool call started:', activity.name);
+                this.ui?.showToolActivity(activity);
+                this.resetActivity();
+                this.emit('tool:start', activity);
+            });
+
+            this.webrtc.on('tool:end', (activity: ToolCallActivity) => {
+                console.log(`🔧 Plugin: Tool call ${activity.status}:`, activity.name, `${activity.duration}ms`);
+                this.ui?.showToolActivity(activity);
+                this.emit('tool:end', activity);
+            });
+
+            // Handle tool calls that need user confirmation
+            this.webrtc.on('tool:confirm', (request: ToolConfirmationRequest) => {
+                console.log('⏸️ Plugin: Tool call awaiting confirmation:', request.name);
+                this.ui?.showToolConfirmation(request);
+                this.emit('tool:confirm', request);
+            });
+
+            this.webrtc.on('tool:decision', (decision: ToolDecision) => {
+                this.ui?.resolveToolConfirmation(decision.callId, decision.approved);
+                this.recordToolDecision(decision);
+                this.resetActivity();
+                this.emit('tool:decision', decision);
+            });
+
+            this.webrtc.on('tool:result', (result: ToolResult) => {
+                this.recordToolResult(result);
+                this.emit('tool:result', result);
+            });
+
+            // Handle selected ICE candidate pair (direct vs relayed)
+            this.webrtc.on('ice:selected', (pair: SelectedCandidatePair) => {
+                console.log('🧊 Plugin: ICE candidate pair selected:', pair.local.candidateType, '->', pair.remote.candidateType);
+                this.emit('ice:selected', pair);
+            });
+
             // Handle data channel ready event
             this.webrtc.on('dataChannel:ready', () => {
                 console.log('✅ Plugin: Data channel is ready');
@@ -268,7 +495,7 @@ export class EverworkerVoicePlugin extends EventEmitter {
 
             console.log('🔌 Plugin: Starting WebRTC initialization...');
             await this.webrtc.initialize();
-            console.log('✅ Plugin: Voice initialization complete!');
+            console.log(`✅ Plugin: Voice initialization complete! Transport: ${this.webrtc.getTransport()}`);
         } catch (error) {
             console.error('❌ Plugin: Failed to initialize voice:', error);
             console.error('Error details:', error);
@@ -327,13 +554,13 @@ export class EverworkerVoicePlugin extends EventEmitter {
 
         try {
             // If voice is enabled and WebRTC is connected, send through WebRTC
-            if (this.webrtc) {
+            if (this.webrtc?.isReady()) {
                 console.log('🎯 Plugin: Sending through WebRTC');
                 this.webrtc.sendTextMessage(text);
             } else if (this.connection) {
-                // Fallback to connection adapter (REST API)
+                // Text-only chat through the connection adapter (DDP method or REST endpoint)
                 console.log('🎯 Plugin: Sending through connection adapter');
-                await this.connection.sendMessage(text);
+                await this.connection.sendMessage(text, this.sessionId || undefined);
             } else {
                 console.error('❌ Plugin: No communication channel available');
                 throw new Error('No communication channel available');
@@ -341,12 +568,7 @@ export class EverworkerVoicePlugin extends EventEmitter {
             console.log('✅ Plugin: Message sent successfully');
         } catch (error) {
             console.error('❌ Plugin: Failed to send message:', error);
-            // If it's the WebRTC error about using data channel, that's expected for DDP
-            if (error instanceof Error && error.message.includes('WebRTC')) {
-                // For DDP connections without voice, we can't send text messages
-                // This is a limitation of the current architecture
-                console.warn('⚠️ Plugin: Text messaging requires WebRTC connection. Enable voice feature or use REST API.');
-            }
+            this.ui?.clearResponse();
             throw error;
         }
     }
@@ -362,9 +584,9 @@ export class EverworkerVoicePlugin extends EventEmitter {
         // Show loading state in UI
         this.ui?.setSessionLoading(true);
 
-        // Optionally clear message history
+        // Optionally start from an empty transcript (earlier conversations stay saved)
         if (clearHistory) {
-            this.clearMessages();
+            this.resetMessages();
         }
 
         try {
@@ -382,6 +604,20 @@ export class EverworkerVoicePlugin extends EventEmitter {
                 console.warn('⚠️ No server session ID, using client-generated:', this.sessionId);
             }
 
+            // Each session is saved as its own conversation, unless an earlier one is being continued
+            const resuming = this.resumeConversation && !!this.conversationId;
+            this.resumeConversation = false;
+            if (!resuming) {
+                this.conversationId = this.sessionId;
+            }
+            this.storage.prune(this.conversationId);
+
+            // Server-side execution logs (agent steps, async results) join the transcript
+            const executionId = session?.executionId || session?.sessionId;
+            if (executionId) {
+                this.connection?.watchExecutionLogs?.(executionId);
+            }
+
             // Mark session as active
             this.sessionActive = true;
             this.sessionStartTime = new Date();
@@ -390,13 +626,15 @@ export class EverworkerVoicePlugin extends EventEmitter {
             this.ui?.setSessionActive(true);
             this.ui?.setSessionLoading(false);
             
-            // Auto-start microphone
-            try {
-                console.log('🎤 Plugin: Auto-starting microphone...');
-                await this.startVoiceInput();
-            } catch (error) {
-                console.warn('⚠️ Plugin: Could not auto-start microphone:', error);
-                // Don't fail the session if mic can't start
+            // Auto-start microphone (text-only placements never ask for it)
+            if (this.config.features?.voice) {
+                try {
+                    console.log('🎤 Plugin: Auto-starting microphone...');
+                    await this.startVoiceInput();
+                } catch (error) {
+                    console.warn('⚠️ Plugin: Could not auto-start microphone:', error);
+                    // Don't fail the session if mic can't start
+                }
             }
             
             // Set up session timeout (configurable hard timeout)
@@ -409,7 +647,12 @@ export class EverworkerVoicePlugin extends EventEmitter {
             this.emit('session:started');
 
             // Send automatic "hi" message once data channel is ready
-            this.sendGreetingWhenReady();
+            // (a continued conversation gets its earlier turns instead)
+            if (resuming) {
+                this.replayHistoryWhenReady(this.messages);
+            } else {
+                this.sendGreetingWhenReady();
+            }
         } catch (error) {
             console.error('❌ Plugin: Failed to start session:', error);
             this.sessionActive = false;
@@ -459,7 +702,7 @@ export class EverworkerVoicePlugin extends EventEmitter {
 
     private sendGreetingWhenReady(): void {
         // Check if data channel is already ready
-        if (this.webrtc && (this.webrtc as any).dataChannel?.readyState === 'open') {
+        if (this.webrtc && this.webrtc.isReady()) {
             console.log('👋 Plugin: Data channel already open, sending greeting immediately');
             this.sendMessage('hi').catch(error => {
                 console.warn('⚠️ Plugin: Could not send automatic greeting:', error);
@@ -484,6 +727,22 @@ export class EverworkerVoicePlugin extends EventEmitter {
         this.once('dataChannel:ready', onDataChannelReady);
     }
 
+    private replayHistoryWhenReady(messages: Message[]): void {
+        const replay = () => {
+            try {
+                this.webrtc?.sendHistory(messages);
+            } catch (error) {
+                console.warn('⚠️ Plugin: Could not replay conversation history:', error);
+            }
+        };
+
+        if (this.webrtc && this.webrtc.isReady()) {
+            replay();
+            return;
+        }
+        this.once('dataChannel:ready', replay);
+    }
+
     private setupSessionTimeout(): void {
         // Clear any existing timer
         this.clearSessionTimeout();
@@ -641,6 +900,312 @@ export class EverworkerVoicePlugin extends EventEmitter {
         }, EverworkerVoicePlugin.IDLE_GRACE_PERIOD_MS);
     }
 
+    /**
+     * Expose a browser-side action (navigate, fill a form, read the cart...) to the agent
+     * Registered tools are handled locally; other tool calls still go to the server
+     */
+    public registerTool(tool: ClientTool): void {
+        this.tools.register(tool);
+        console.log(`🔧 Plugin: Registered client tool "${tool.name}"`);
+        this.webrtc?.refreshTools();
+    }
+
+    public unregisterTool(name: string): void {
+        if (this.tools.unregister(name)) {
+            console.log(`🔧 Plugin: Unregistered client tool "${name}"`);
+            this.webrtc?.refreshTools();
+        }
+    }
+
+    /**
+     * Render results of a tool with custom UI (product cards, tables...) instead of raw JSON
+     * Pass null to restore the default rendering
+     */
+    public registerToolRenderer(name: string, renderer: ToolRenderer | null): void {
+        this.ui?.setToolRenderer(name, renderer);
+    }
+
+    /**
+     * Change the assistant voice or model options
+     * Applies to the live session (session.update) and to sessions started later
+     */
+    public updateSession(options: SessionOptions): void {
+        this.config.session = { ...this.config.session, ...options };
+
+        if ('voice' in options) {
+            this.storage.saveConfig(EverworkerVoicePlugin.VOICE_STORAGE_KEY, options.voice || null);
+            this.ui?.setVoiceOptions(this.getAvailableVoices(), options.voice);
+        }
+        if (options.turnDetection) {
+            this.ui?.setPushToTalk(this.getPushToTalkShortcut());
+        }
+
+        this.webrtc?.updateSession(options);
+        this.emit('session:updated', this.config.session);
+    }
+
+    /**
+     * Push-to-talk: open the mic for one turn (for host pages with their own talk button)
+     */
+    public startTalking(): void {
+        if (!this.webrtc?.isPushToTalk()) return;
+        this.webrtc.setTalking(true);
+        this.resetActivity();
+        this.emit('talk:start');
+    }
+
+    public stopTalking(): void {
+        if (!this.webrtc?.isPushToTalk()) return;
+        this.webrtc.setTalking(false);
+        this.emit('talk:end');
+    }
+
+    /**
+     * Microphones and speakers for a device picker
+     * Speakers are listed only where the browser can route output to them (setSinkId)
+     */
+    public async listAudioDevices(): Promise<AudioDevice[]> {
+        if (!navigator.mediaDevices?.enumerateDevices) {
+            return [];
+        }
+
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        const counts = { audioinput: 0, audiooutput: 0 };
+
+        return devices
+            .filter((device): device is MediaDeviceInfo & { kind: AudioDevice['kind'] } =>
+                device.kind === 'audioinput' ||
+                (device.kind === 'audiooutput' && WebRTCManager.supportsOutputSelection()))
+            .map(device => {
+                counts[device.kind]++;
+                const fallback = device.kind === 'audioinput' ? 'Microphone' : 'Speaker';
+                return {
+                    deviceId: device.deviceId,
+                    label: device.label || `${fallback} ${counts[device.kind]}`,
+                    kind: device.kind
+                };
+            });
+    }
+
+    /**
+     * Use another microphone (null = system default); switches a live session in place
+     */
+    public async setInputDevice(deviceId: string | null): Promise<void> {
+        this.audioDevices = { ...this.audioDevices, input: deviceId };
+        this.storage.saveConfig(EverworkerVoicePlugin.AUDIO_DEVICES_STORAGE_KEY, this.audioDevices);
+        await this.webrtc?.setInputDevice(deviceId);
+        await this.refreshAudioDevices();
+    }
+
+    /**
+     * Play the assistant on another speaker (null = system default)
+     */
+    public async setOutputDevice(deviceId: string | null): Promise<void> {
+        if (deviceId && !WebRTCManager.supportsOutputSelection()) {
+            throw new Error('Choosing a speaker is not supported in this browser');
+        }
+
+        this.audioDevices = { ...this.audioDevices, output: deviceId };
+        this.storage.saveConfig(EverworkerVoicePlugin.AUDIO_DEVICES_STORAGE_KEY, this.audioDevices);
+        await this.webrtc?.setOutputDevice(deviceId);
+        await this.refreshAudioDevices();
+    }
+
+    private async refreshAudioDevices(): Promise<void> {
+        try {
+            const devices = await this.listAudioDevices();
+            this.ui?.setAudioDevices(devices, this.audioDevices);
+            this.emit('devices:change', devices, this.audioDevices);
+        } catch (error) {
+            console.warn('⚠️ Plugin: Could not list audio devices', error);
+        }
+    }
+
+    private getPushToTalkShortcut(): string | null {
+        const turnDetection = this.config.session?.turnDetection;
+        return turnDetection?.type === 'push_to_talk' ? turnDetection.shortcut || 'Space' : null;
+    }
+
+    private getAvailableVoices(): string[] {
+        const provider = this.config.realtime?.provider;
+        const providerVoices = provider && typeof provider !== 'string'
+            ? provider.voices
+            : OpenAIRealtimeProvider.VOICES;
+        return this.config.session?.voices || providerVoices || [];
+    }
+
+    /**
+     * Tell the worker who the visitor is, for personalized answers and CRM joins
+     * Pass null to clear it (e.g. when the visitor logs out of the host site)
+     */
+    public setUserContext(user: UserContext | null): void {
+        this.context = { ...this.context, user: user || undefined };
+        this.webrtc?.setContext(this.context);
+    }
+
+    /**
+     * Tell the worker which page the visitor is on; defaults to the current URL, title and referrer
+     * Call again after client-side navigation
+     */
+    public setPageContext(page: PageContext = {}): void {
+        this.context = {
+            ...this.context,
+            page: {
+                url: window.location.href,
+                title: document.title,
+                referrer: document.referrer || undefined,
+                ...page
+            }
+        };
+        this.webrtc?.setContext(this.context);
+    }
+
+    /**
+     * Sign in with the configured password or OAuth flow
+     * Call from a click handler for OAuth so the popup isn't blocked
+     */
+    public async login(): Promise<void> {
+        // Password logins run over a transport, so one is opened if no session did yet
+        const token = this.config.auth?.type === 'password'
+            ? await this.withConnection(() => this.tokens.getToken())
+            : await this.tokens.refresh();
+        if (!token) {
+            throw new Error('Login did not return a token');
+        }
+
+        // Show the signed-in user's own conversations, not those of whoever used the page before
+        if (this.storage.setUserId(this.getStorageUserId(token))) {
+            this.resetMessages();
+            await this.restoreLatestConversation();
+        }
+
+        this.emit('auth:login');
+        this.hydrateFromServer();
+    }
+
+    /**
+     * Forget the credentials and everything saved for this user (other users and workers are untouched)
+     */
+    public async logout(): Promise<void> {
+        try {
+            await this.connection?.logout?.();
+        } catch (error) {
+            console.warn('⚠️ Plugin: Server logout failed:', error);
+        }
+
+        if (this.sessionActive) {
+            await this.endSession();
+        } else if (this.connection) {
+            await this.disconnect();
+        }
+
+        this.tokens.clear();
+        await this.storage.clear();
+        this.storage.setUserId(this.getStorageUserId());
+        this.resetMessages();
+        this.emit('auth:logout');
+    }
+
+    /**
+     * Whose data this instance stores: explicit auth.userId, the login name, or the subject of the token (static or obtained)
+     */
+    private getStorageUserId(token?: string): string | undefined {
+        const auth = this.config.auth;
+        if (auth?.userId) return auth.userId;
+        if (auth?.type === 'password' && auth.credentials?.username) return auth.credentials.username;
+
+        const jwt = token || (typeof auth?.token === 'string' ? auth.token : undefined);
+        return jwt ? TokenProvider.decodeSubject(jwt) || undefined : undefined;
+    }
+
+    /**
+     * Reopen the most recent saved conversation
+     */
+    private async restoreLatestConversation(): Promise<void> {
+        const [latest] = await this.storage.listConversations();
+        if (latest) {
+            this.conversationId = latest.sessionId;
+            this.messages = await this.storage.loadMessages(latest.sessionId);
+        }
+        this.storage.prune(this.conversationId);
+        // Always call setMessages to trigger welcome message check
+        this.ui?.setMessages(this.messages);
+    }
+
+    private async loginWithOAuth(oauth: OAuthClient): Promise<string> {
+        let tokens: OAuthTokens | null = null;
+
+        // Returning users are signed in silently while their refresh token is valid
+        const refreshToken = this.storage.loadCredential(EverworkerVoicePlugin.OAUTH_REFRESH_TOKEN_KEY);
+        if (refreshToken) {
+            try {
+                tokens = await oauth.refresh(refreshToken);
+            } catch (error) {
+                console.warn('⚠️ Plugin: OAuth refresh failed, opening sign-in popup', error);
+            }
+        }
+
+        if (!tokens) {
+            tokens = await oauth.authorize();
+        }
+
+        this.storage.saveCredential(EverworkerVoicePlugin.OAUTH_REFRESH_TOKEN_KEY, tokens.refreshToken || refreshToken || null);
+        return tokens.accessToken;
+    }
+
+    /**
+     * Subscribe to a DDP publication (worker status, shared lists...) from the host page
+     * Documents are cached locally and stay live until stop() or disconnect
+     */
+    public subscribe(name: string, ...params: any[]): SubscriptionHandle {
+        if (!(this.connection instanceof DDPAdapter)) {
+            throw new Error('Subscriptions require an active DDP connection');
+        }
+        return this.connection.createSubscription(name, params);
+    }
+
+    private handleToolDecision(callId: string, approved: boolean): void {
+        this.webrtc?.resolveToolConfirmation(callId, approved);
+    }
+
+    private recordToolDecision(decision: ToolDecision): void {
+        const reasons: Record<ToolDecision['reason'], string> = {
+            user: '',
+            voice: ' by voice',
+            policy: ' by policy',
+            timeout: ' (no answer)'
+        };
+        const verb = decision.approved ? 'Approved' : 'Rejected';
+
+        this.addMessage({
+            id: this.generateId(),
+            type: 'system',
+            content: `${verb} "${decision.name}"${reasons[decision.reason]}`,
+            timestamp: new Date(),
+            metadata: { type: 'tool-decision', tool: decision }
+        });
+    }
+
+    private recordToolResult(result: ToolResult): void {
+        const MAX_RESULT_LENGTH = 500;
+        let content: string;
+
+        if (result.error) {
+            content = `"${result.name}" failed: ${result.error}`;
+        } else {
+            const output = JSON.stringify(result.result ?? null);
+            content = `"${result.name}" result: ${output.length > MAX_RESULT_LENGTH ? output.slice(0, MAX_RESULT_LENGTH) + '…' : output}`;
+        }
+
+        this.addMessage({
+            id: this.generateId(),
+            type: 'system',
+            content,
+            timestamp: new Date(),
+            metadata: { type: 'tool-result', tool: result }
+        });
+    }
+
     public isSessionActive(): boolean {
         return this.sessionActive;
     }
@@ -665,6 +1230,8 @@ export class EverworkerVoicePlugin extends EventEmitter {
 
         await this.webrtc.startRecording();
         this.ui?.setVoiceActive(true);
+        // Device labels are only exposed once microphone permission is granted
+        this.refreshAudioDevices();
         console.log('✅ Plugin: Voice input started');
     }
 
@@ -687,13 +1254,19 @@ export class EverworkerVoicePlugin extends EventEmitter {
     }
 
     private handleMessage(data: any): void {
+        // Streams may redeliver entries (SSE retry, DDP resubscribe)
+        if (data.id && this.messages.some(m => m.id === data.id)) {
+            return;
+        }
+
         const message: Message = {
             id: data.id || this.generateId(),
             type: data.type || 'assistant',  // Use the type from data if provided
             content: data.content || data.text || '',
             timestamp: new Date(data.timestamp || Date.now()),
             source: data.source || 'text',
-            metadata: data.metadata
+            metadata: data.metadata,
+            interrupted: data.interrupted
         };
 
         this.addMessage(message);
@@ -717,8 +1290,15 @@ export class EverworkerVoicePlugin extends EventEmitter {
             this.messages.splice(0, excess); // Remove oldest messages
         }
 
-        this.ui?.addMessage(message);
-        this.storage.saveMessages(this.messages);
+        // A past conversation open read-only keeps the panel until the user goes back
+        if (!this.viewedConversation) {
+            this.ui?.addMessage(message);
+        }
+
+        if (!this.conversationId) {
+            this.conversationId = this.sessionId || this.generateSessionId();
+        }
+        this.storage.appendMessage(this.conversationId, message);
 
         // Async backend logging (fire-and-forget, non-blocking)
         this.syncMessageToBackend(message);
@@ -734,6 +1314,17 @@ export class EverworkerVoicePlugin extends EventEmitter {
         this.ui?.showError(error.message);
     }
 
+    private handleConnectionInterrupted(): void {
+        console.warn('⚠️ Plugin: Signaling connection interrupted, waiting for adapter to resume...');
+        this.setState('reconnecting');
+    }
+
+    private handleConnectionRestored(): void {
+        console.log('✅ Plugin: Signaling connection resumed');
+        this.setState('connected');
+        this.emit('reconnect');
+    }
+
     private handleDisconnect(): void {
         this.setState('disconnected');
         this.handleReconnect();
@@ -812,10 +1403,13 @@ export class EverworkerVoicePlugin extends EventEmitter {
         // Fire-and-forget async logging to backend
         if (!this.connection || !this.sessionId) return;
         if (!('logConversationMessage' in this.connection)) return;
+        // Execution logs came from the server in the first place
+        if (message.metadata?.executionLog) return;
 
         (this.connection as any).logConversationMessage({
             workerId: this.config.workerId,
             sessionId: this.sessionId,
+            context: this.context,
             message: {
                 id: message.id,
                 type: message.type,
@@ -824,7 +1418,10 @@ export class EverworkerVoicePlugin extends EventEmitter {
                 source: message.source
             }
         }).catch((error: Error) => {
-            console.warn('Failed to sync message to backend:', error);
+            // DDPError carries the server code, e.g. 'unauthorized' vs 'invalid-data'
+            const code = error instanceof DDPError ? ` [${error.error}]` : '';
+            console.warn(`Failed to sync message to backend${code}:`, error);
+            this.emit('sync:error', error, message);
             // Don't throw - let conversation continue
         });
     }
@@ -862,10 +1459,239 @@ export class EverworkerVoicePlugin extends EventEmitter {
         return this.messages;
     }
 
+    /**
+     * Clear the transcript and delete its saved conversation
+     */
     public clearMessages(): void {
+        if (this.conversationId) {
+            this.storage.deleteConversation(this.conversationId);
+        }
+        this.resetMessages();
+    }
+
+    private resetMessages(): void {
         this.messages = [];
+        this.conversationId = null;
+        this.resumeConversation = false;
+        this.viewedConversation = null;
+        this.ui?.closeConversation();
         this.ui?.clearMessages();
-        this.storage.clearMessages();
+    }
+
+    /**
+     * The current transcript as Markdown, JSON, plain text, WebVTT (voice turns only) or a print-ready HTML page
+     */
+    public exportTranscript(format: TranscriptFormat = 'markdown'): string {
+        return formatTranscript(this.messages, format, {
+            workerId: this.config.workerId,
+            sessionId: this.conversationId,
+            exportedAt: new Date()
+        });
+    }
+
+    /**
+     * Save what the chat panel shows as a file (a past conversation when one is open read-only)
+     */
+    public downloadTranscript(format: TranscriptFormat = 'markdown'): void {
+        const viewed = this.viewedConversation;
+        const exportedAt = new Date();
+        const content = formatTranscript(viewed ? viewed.messages : this.messages, format, {
+            workerId: this.config.workerId,
+            sessionId: viewed ? viewed.sessionId : this.conversationId,
+            exportedAt
+        });
+        const { extension, mimeType } = TRANSCRIPT_FILES[format];
+
+        const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `transcript-${exportedAt.toISOString().slice(0, 10)}.${extension}`;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        // Some browsers start the download asynchronously
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+
+    /**
+     * Past conversations, newest first: those saved in this browser plus, when connected,
+     * the ones the server knows about (voice.getConversationHistory)
+     */
+    public async getConversationHistory(): Promise<ConversationSummary[]> {
+        const local: ConversationSummary[] = (await this.storage.listConversations())
+            .map(conversation => ({ ...conversation, source: 'local' }));
+
+        let remote: ConversationSummary[] = [];
+        if (this.connection?.listConversations) {
+            try {
+                const known = new Set(local.map(c => c.sessionId));
+                remote = (await this.connection.listConversations())
+                    .filter(conversation => !known.has(conversation.sessionId))
+                    .map(conversation => ({ ...conversation, source: 'server' }));
+            } catch (error) {
+                console.warn('⚠️ Plugin: Could not load conversation history from server:', error);
+            }
+        }
+
+        return [...local, ...remote].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    }
+
+    /**
+     * Reopen a past conversation, either read-only ('view') or as the current one ('continue')
+     * A continued conversation is replayed to the model so it keeps the earlier context
+     */
+    public async openConversation(sessionId: string, mode: 'view' | 'continue' = 'view'): Promise<void> {
+        if (sessionId === this.conversationId) {
+            this.closeConversation();
+            return;
+        }
+
+        const conversation = (await this.getConversationHistory()).find(c => c.sessionId === sessionId);
+        if (!conversation) {
+            throw new Error(`Conversation ${sessionId} not found`);
+        }
+
+        const messages = conversation.source === 'local'
+            ? await this.storage.loadMessages(sessionId)
+            : await this.connection?.getConversation?.(sessionId) || [];
+
+        if (mode === 'view') {
+            this.viewedConversation = { sessionId, messages };
+            this.ui?.showConversation(conversation, messages);
+            this.emit('conversation:opened', { sessionId, mode });
+            return;
+        }
+
+        // Keep a local copy so the continued conversation is saved as a whole
+        if (conversation.source === 'server') {
+            await this.storage.replaceConversation(sessionId, messages);
+        }
+
+        this.viewedConversation = null;
+        this.messages = messages.slice(-this.MAX_MESSAGES);
+        this.conversationId = sessionId;
+        this.ui?.closeConversation();
+        this.ui?.setMessages(this.messages);
+
+        if (this.sessionActive) {
+            this.replayHistoryWhenReady(this.messages);
+        } else {
+            this.resumeConversation = true;
+        }
+        this.emit('conversation:opened', { sessionId, mode });
+    }
+
+    /**
+     * Leave a read-only conversation and show the live transcript again
+     */
+    public closeConversation(): void {
+        this.viewedConversation = null;
+        this.ui?.closeConversation();
+        this.ui?.setMessages(this.messages);
+    }
+
+    /**
+     * Delete a conversation saved in this browser (server copies are kept)
+     */
+    public async deleteConversation(sessionId: string): Promise<void> {
+        if (sessionId === this.conversationId) {
+            this.clearMessages();
+        } else {
+            if (sessionId === this.viewedConversation?.sessionId) {
+                this.closeConversation();
+            }
+            await this.storage.deleteConversation(sessionId);
+        }
+        this.emit('conversation:deleted', sessionId);
+    }
+
+    /**
+     * Load the user's last conversation from the backend and merge it with this browser's copy by message id
+     * A newer local conversation is kept; the server's stays reachable from the history view
+     */
+    private async hydrateFromServer(): Promise<void> {
+        if (this.config.features?.serverHistory === false || !this.isSignedIn()) {
+            return;
+        }
+
+        // Runs in the background of init() and login(), so it never rejects
+        try {
+            await this.syncLatestConversation();
+        } catch (error) {
+            console.warn('⚠️ Plugin: Could not restore conversation history from server:', error);
+        }
+    }
+
+    private async syncLatestConversation(): Promise<void> {
+        const startedWith = this.conversationId;
+        let latest: StoredConversation | undefined;
+        let remote: Message[] = [];
+
+        await this.withConnection(async connection => {
+            if (!connection.listConversations || !connection.getConversation) return;
+            [latest] = await connection.listConversations();
+            if (latest) {
+                remote = await connection.getConversation(latest.sessionId);
+            }
+        });
+        if (!latest || !remote.length) return;
+
+        // The user moved on while the request was out
+        if (this.sessionActive || this.viewedConversation || this.conversationId !== startedWith) {
+            console.log('⏭️ Plugin: Conversation changed meanwhile, not applying server history');
+            return;
+        }
+
+        if (this.conversationId && this.conversationId !== latest.sessionId) {
+            const [local] = await this.storage.listConversations();
+            if (local && local.updatedAt.getTime() >= latest.updatedAt.getTime()) return;
+        }
+
+        const local = this.conversationId === latest.sessionId ? this.messages : await this.storage.loadMessages(latest.sessionId);
+        const merged = mergeMessages(local, remote);
+        if (this.conversationId === latest.sessionId && merged.length === this.messages.length) {
+            return;
+        }
+
+        console.log(`📥 Plugin: Restored ${merged.length} messages of conversation ${latest.sessionId} from server`);
+        await this.storage.replaceConversation(latest.sessionId, merged);
+        if (this.sessionActive || this.viewedConversation || this.conversationId !== startedWith) return;
+
+        this.conversationId = latest.sessionId;
+        this.messages = merged.slice(-this.MAX_MESSAGES);
+        this.ui?.setMessages(this.messages);
+        this.emit('conversation:synced', { sessionId: latest.sessionId, messageCount: merged.length });
+    }
+
+    /**
+     * Run a request over the live connection, or a short-lived one before the first session
+     */
+    private async withConnection<T>(request: (connection: ConnectionAdapter) => Promise<T>): Promise<T> {
+        if (this.connection) {
+            return request(this.connection);
+        }
+
+        const connection = await this.negotiateTransport();
+        try {
+            return await request(connection);
+        } finally {
+            connection.disconnect();
+        }
+    }
+
+    /**
+     * Whether the backend can tell who this is: a token, or a persisted login (never prompts)
+     */
+    private isSignedIn(): boolean {
+        const auth = this.config.auth;
+        if (auth?.type === 'password' || auth?.type === 'oauth') {
+            return !!this.tokens.getStoredToken();
+        }
+        return !!auth?.token;
+    }
+
+    private async refreshConversationHistory(): Promise<void> {
+        this.ui?.setConversationHistory(await this.getConversationHistory(), this.conversationId);
     }
 
     /**
@@ -0,0 +1,19 @@
+/**
+ * Shared shape for execution log entries, whether they arrive over
+ * a DDP subscription, Server-Sent Events or REST polling
+ */
+export const EXECUTION_LOGS_PUBLICATION = 'voice.executionLogs';
+export const EXECUTION_LOGS_COLLECTION = 'executionLogs';
+export const TEXT_REPLIES_PUBLICATION = 'voice.textReplies';
+export const TEXT_REPLIES_COLLECTION = 'voiceTextReplies';
+
+export function normalizeExecutionLog(data: any) {
+    return {
+        id: data.id || data._id || Date.now().toString(),
+        content: data.content || data.message || data.text || '',
+        type: data.type || 'assistant',
+        timestamp: data.timestamp || new Date().toISOString(),
+        // Marked so the plugin doesn't log server-originated entries back to the server
+        metadata: { ...(data.metadata || {}), executionLog: true }
+    };
+}
@@ -0,0 +1,181 @@
+import { ConversationStore, Message, StoredConversation } from '../types';
+import { conversationTitle, fromStoredMessage, toStoredMessage } from './Conversations';
+
+/**
+ * Conversations in IndexedDB
+ * One 'conversations' record per namespace + sessionId and one 'messages' record per message,
+ * so appending a message is a single small write however long the conversation gets.
+ */
+export class IndexedDBConversationStore implements ConversationStore {
+    private static readonly DB_NAME = 'everworker-voice';
+    private static readonly DB_VERSION = 1;
+    private static readonly CONVERSATIONS = 'conversations';
+    private static readonly MESSAGES = 'messages';
+
+    private db: Promise<IDBDatabase> | null = null;
+
+    public static isSupported(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    public async listConversations(namespace: string): Promise<StoredConversation[]> {
+        const db = await this.open();
+        const tx = db.transaction(IndexedDBConversationStore.CONVERSATIONS, 'readonly');
+        const records = await request<any[]>(
+            tx.objectStore(IndexedDBConversationStore.CONVERSATIONS).index('namespace').getAll(namespace)
+        );
+
+        return records
+            .map(({ namespace: _namespace, nextSeq: _nextSeq, ...record }) => ({
+                ...record,
+                createdAt: new Date(record.createdAt),
+                updatedAt: new Date(record.updatedAt)
+            }))
+            .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    }
+
+    public async loadMessages(namespace: string, sessionId: string): Promise<Message[]> {
+        const db = await this.open();
+        const tx = db.transaction(IndexedDBConversationStore.MESSAGES, 'readonly');
+        const records = await request<any[]>(
+            tx.objectStore(IndexedDBConversationStore.MESSAGES).index('conversation').getAll([namespace, sessionId])
+        );
+
+        return records
+            .sort((a, b) => a.seq - b.seq)
+            .map(({ namespace: _namespace, sessionId: _session, seq: _seq, ...message }) => fromStoredMessage(message));
+    }
+
+    public async appendMessage(namespace: string, sessionId: string, message: Message): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(
+            [IndexedDBConversationStore.CONVERSATIONS, IndexedDBConversationStore.MESSAGES],
+            'readwrite'
+        );
+        const conversations = tx.objectStore(IndexedDBConversationStore.CONVERSATIONS);
+        const messages = tx.objectStore(IndexedDBConversationStore.MESSAGES);
+
+        // Callbacks rather than awaits keep every request inside this transaction
+        conversations.get([namespace, sessionId]).onsuccess = (event) => {
+            const now = Date.now();
+            const conversation = (event.target as IDBRequest).result || {
+                namespace,
+                sessionId,
+                title: '',
+                messageCount: 0,
+                nextSeq: 0,
+                // Imported history starts when its first message was sent, not when it was copied here
+                createdAt: message.timestamp.getTime()
+            };
+
+            messages.get([namespace, sessionId, message.id]).onsuccess = (messageEvent) => {
+                // A redelivered message keeps its place in the conversation
+                const existing = (messageEvent.target as IDBRequest).result;
+                const seq = existing ? existing.seq : conversation.nextSeq;
+
+                messages.put({ ...toStoredMessage(message), namespace, sessionId, seq });
+                conversations.put({
+                    ...conversation,
+                    title: conversation.title || conversationTitle(message),
+                    messageCount: conversation.messageCount + (existing ? 0 : 1),
+                    nextSeq: existing ? conversation.nextSeq : conversation.nextSeq + 1,
+                    updatedAt: now
+                });
+            };
+        };
+
+        await complete(tx);
+    }
+
+    public async trimMessages(namespace: string, sessionId: string, keep: number): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(
+            [IndexedDBConversationStore.CONVERSATIONS, IndexedDBConversationStore.MESSAGES],
+            'readwrite'
+        );
+        const conversations = tx.objectStore(IndexedDBConversationStore.CONVERSATIONS);
+        const messages = tx.objectStore(IndexedDBConversationStore.MESSAGES);
+
+        messages.index('conversation').getAll([namespace, sessionId]).onsuccess = (event) => {
+            const records: any[] = (event.target as IDBRequest).result;
+            if (records.length <= keep) return;
+
+            records
+                .sort((a, b) => a.seq - b.seq)
+                .slice(0, records.length - keep)
+                .forEach(record => messages.delete([namespace, sessionId, record.id]));
+
+            conversations.get([namespace, sessionId]).onsuccess = (convEvent) => {
+                const conversation = (convEvent.target as IDBRequest).result;
+                if (conversation) {
+                    conversations.put({ ...conversation, messageCount: keep });
+                }
+            };
+        };
+
+        await complete(tx);
+    }
+
+    public async deleteConversation(namespace: string, sessionId: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(
+            [IndexedDBConversationStore.CONVERSATIONS, IndexedDBConversationStore.MESSAGES],
+            'readwrite'
+        );
+        const messages = tx.objectStore(IndexedDBConversationStore.MESSAGES);
+
+        tx.objectStore(IndexedDBConversationStore.CONVERSATIONS).delete([namespace, sessionId]);
+        messages.index('conversation').getAllKeys([namespace, sessionId]).onsuccess = (event) => {
+            ((event.target as IDBRequest).result as IDBValidKey[]).forEach(key => messages.delete(key));
+        };
+
+        await complete(tx);
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const openRequest = indexedDB.open(IndexedDBConversationStore.DB_NAME, IndexedDBConversationStore.DB_VERSION);
+
+                openRequest.onupgradeneeded = () => {
+                    const db = openRequest.result;
+
+                    const conversations = db.createObjectStore(IndexedDBConversationStore.CONVERSATIONS, {
+                        keyPath: ['namespace', 'sessionId']
+                    });
+                    conversations.createIndex('namespace', 'namespace');
+
+                    const messages = db.createObjectStore(IndexedDBConversationStore.MESSAGES, {
+                        keyPath: ['namespace', 'sessionId', 'id']
+                    });
+                    messages.createIndex('conversation', ['namespace', 'sessionId']);
+                };
+                openRequest.onsuccess = () => resolve(openRequest.result);
+                openRequest.onerror = () => reject(openRequest.error);
+                openRequest.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+            });
+
+            // Let a later call retry (e.g. after the other tab closed)
+            this.db.catch(() => {
+                this.db = null;
+            });
+        }
+        return this.db;
+    }
+}
+
+function request<T>(req: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result as T);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+function complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        // QuotaExceededError surfaces here as a DOMException
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+    });
+}
@@ -0,0 +1,115 @@
+import { CollectionChange } from '../types';
+
+interface ChangeListener {
+    collection?: string;
+    callback: (change: CollectionChange) => void;
+}
+
+/**
+ * Minimal minimongo-style cache of documents published over DDP
+ * Documents are keyed by collection name and _id
+ */
+export class LocalCollections {
+    private collections: Map<string, Map<string, any>> = new Map();
+    private listeners: Set<ChangeListener> = new Set();
+
+    /**
+     * Apply an added/changed/removed DDP message
+     */
+    public apply(message: { msg: string; collection?: string; id?: string; fields?: any; cleared?: string[] }): void {
+        if (!message.collection || !message.id) return;
+
+        const docs = this.getCollection(message.collection);
+        let doc: any;
+
+        switch (message.msg) {
+            case 'added':
+                doc = { _id: message.id, ...message.fields };
+                docs.set(message.id, doc);
+                break;
+
+            case 'changed':
+                doc = { _id: message.id, ...docs.get(message.id), ...message.fields };
+                (message.cleared || []).forEach(field => delete doc[field]);
+                docs.set(message.id, doc);
+                break;
+
+            case 'removed':
+                docs.delete(message.id);
+                break;
+
+            default:
+                return;
+        }
+
+        this.notify({
+            type: message.msg as CollectionChange['type'],
+            collection: message.collection,
+            id: message.id,
+            fields: message.fields,
+            cleared: message.cleared,
+            doc: doc ? { ...doc } : undefined
+        });
+    }
+
+    /**
+     * Documents matching a selector of top-level field equalities
+     */
+    public find(collection: string, selector: Record<string, any> = {}): any[] {
+        const docs = this.collections.get(collection);
+        if (!docs) return [];
+
+        const keys = Object.keys(selector);
+        return Array.from(docs.values())
+            .filter(doc => keys.every(key => doc[key] === selector[key]))
+            .map(doc => ({ ...doc }));
+    }
+
+    public findOne(collection: string, id: string): any | undefined {
+        const doc = this.collections.get(collection)?.get(id);
+        return doc ? { ...doc } : undefined;
+    }
+
+    /**
+     * Listen to changes, optionally limited to one collection. Returns an unsubscribe function.
+     */
+    public onChange(callback: (change: CollectionChange) => void, collection?: string): () => void {
+        const listener: ChangeListener = { collection, callback };
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Drop all documents (e.g. before a resubscribe), reporting them as removed
+     */
+    public clear(): void {
+        const collections = this.collections;
+        this.collections = new Map();
+
+        collections.forEach((docs, collection) => {
+            docs.forEach((_, id) => this.notify({ type: 'removed', collection, id }));
+        });
+    }
+
+    private getCollection(name: string): Map<string, any> {
+        let docs = this.collections.get(name);
+        if (!docs) {
+            docs = new Map();
+            this.collections.set(name, docs);
+        }
+        return docs;
+    }
+
+    private notify(change: CollectionChange): void {
+        this.listeners.forEach(listener => {
+            if (listener.collection && listener.collection !== change.collection) return;
+            try {
+                listener.callback(change);
+            } catch (error) {
+                console.error('LocalCollections: Error in change listener:', error);
+            }
+        });
+    }
+}
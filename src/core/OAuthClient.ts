@@ -0,0 +1,139 @@
+import { OAuthConfig, OAuthTokens } from '../types';
+
+/**
+ * OAuth 2.0 authorization code flow with PKCE, run in a popup
+ * Lets end users authenticate against the customer's IdP without a client secret
+ */
+export class OAuthClient {
+    private static readonly DEFAULT_POPUP_TIMEOUT_MS = 120000;
+    private static readonly POPUP_POLL_INTERVAL_MS = 500;
+
+    private config: OAuthConfig;
+
+    constructor(config: OAuthConfig) {
+        this.config = config;
+    }
+
+    public async authorize(): Promise<OAuthTokens> {
+        const verifier = this.randomString(64);
+        const challenge = this.base64Url(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier)));
+        const state = this.randomString(32);
+
+        const params = new URLSearchParams({
+            response_type: 'code',
+            client_id: this.config.clientId,
+            redirect_uri: this.config.redirectUri,
+            state,
+            code_challenge: challenge,
+            code_challenge_method: 'S256'
+        });
+        if (this.config.scope) {
+            params.append('scope', this.config.scope);
+        }
+
+        const popup = window.open(
+            `${this.config.authorizationUrl}?${params}`,
+            'everworker-oauth',
+            'width=500,height=650'
+        );
+        if (!popup) {
+            throw new Error('OAuth popup was blocked. Call login() from a user gesture.');
+        }
+
+        const redirect = await this.waitForRedirect(popup);
+        if (redirect.get('error')) {
+            throw new Error(`OAuth authorization failed: ${redirect.get('error_description') || redirect.get('error')}`);
+        }
+        if (redirect.get('state') !== state) {
+            throw new Error('OAuth state mismatch');
+        }
+
+        return this.requestTokens({
+            grant_type: 'authorization_code',
+            code: redirect.get('code') || '',
+            redirect_uri: this.config.redirectUri,
+            code_verifier: verifier
+        });
+    }
+
+    public refresh(refreshToken: string): Promise<OAuthTokens> {
+        return this.requestTokens({
+            grant_type: 'refresh_token',
+            refresh_token: refreshToken
+        });
+    }
+
+    private waitForRedirect(popup: Window): Promise<URLSearchParams> {
+        const timeout = this.config.popupTimeout || OAuthClient.DEFAULT_POPUP_TIMEOUT_MS;
+        const startedAt = Date.now();
+
+        return new Promise((resolve, reject) => {
+            const timer = setInterval(() => {
+                if (popup.closed) {
+                    clearInterval(timer);
+                    reject(new Error('OAuth popup was closed before signing in'));
+                    return;
+                }
+
+                if (Date.now() - startedAt > timeout) {
+                    clearInterval(timer);
+                    popup.close();
+                    reject(new Error('OAuth sign-in timed out'));
+                    return;
+                }
+
+                let href: string;
+                try {
+                    href = popup.location.href;
+                } catch {
+                    return; // Still on the IdP's origin
+                }
+
+                if (!href.startsWith(this.config.redirectUri)) {
+                    return;
+                }
+
+                clearInterval(timer);
+                popup.close();
+                const url = new URL(href);
+                resolve(new URLSearchParams(url.search || url.hash.slice(1)));
+            }, OAuthClient.POPUP_POLL_INTERVAL_MS);
+        });
+    }
+
+    private async requestTokens(params: Record<string, string>): Promise<OAuthTokens> {
+        const response = await fetch(this.config.tokenUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: new URLSearchParams({
+                client_id: this.config.clientId,
+                ...params
+            })
+        });
+
+        if (!response.ok) {
+            throw new Error(`OAuth token request failed: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        return {
+            accessToken: data.access_token,
+            refreshToken: data.refresh_token
+        };
+    }
+
+    private randomString(length: number): string {
+        const bytes = crypto.getRandomValues(new Uint8Array(length));
+        return this.base64Url(bytes.buffer).slice(0, length);
+    }
+
+    private base64Url(buffer: ArrayBuffer): string {
+        let binary = '';
+        new Uint8Array(buffer).forEach(byte => {
+            binary += String.fromCharCode(byte);
+        });
+        return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    }
+}
@@ -1,22 +1,33 @@
-import { ConnectionAdapter, ConnectionState, PluginConfig } from '../types';
+import { ConnectionAdapter, ConnectionState, ConversationContext, Message, PluginConfig, StoredConversation } from '../types';
+import { fromServerConversation, fromServerMessage } from './Conversations';
 import { EventEmitter } from './EventEmitter';
+import { normalizeExecutionLog } from './ExecutionLogs';
+import { TokenProvider } from './TokenProvider';
 
 /**
  * REST API adapter for Everworker Voice Plugin
  * Provides fallback communication when WebSocket/DDP is not available
  */
 export class RESTAdapter extends EventEmitter implements ConnectionAdapter {
+    private static readonly MIN_POLL_INTERVAL_MS = 2000;
+    private static readonly MAX_POLL_INTERVAL_MS = 30000;
+    private static readonly POLL_BACKOFF_FACTOR = 1.5;
+
     private config: PluginConfig;
+    private tokens: TokenProvider;
     private state: ConnectionState = 'disconnected';
-    private pollInterval: any = null;
+    private pollTimer: any = null;
+    private pollDelay = RESTAdapter.MIN_POLL_INTERVAL_MS;
+    private eventSource: EventSource | null = null;
     private executionId: string | null = null;
     private lastMessageId: string | null = null;
     private baseUrl: string;
     private headers: Record<string, string> = {};
 
-    constructor(config: PluginConfig) {
+    constructor(config: PluginConfig, tokens: TokenProvider = new TokenProvider(config.auth)) {
         super();
         this.config = config;
+        this.tokens = tokens;
         
         // Convert ws/wss to http/https if needed
         let url = config.endpoint;
@@ -32,6 +43,9 @@ export class RESTAdapter extends EventEmitter implements ConnectionAdapter {
 
     public async connect(): Promise<void> {
         this.state = 'connecting';
+        if (this.config.auth?.type === 'password') {
+            this.tokens.setLoginHandler(this.passwordLogin);
+        }
         
         try {
             // Setup authentication headers
@@ -43,9 +57,9 @@ export class RESTAdapter extends EventEmitter implements ConnectionAdapter {
             this.state = 'connected';
             this.emit('connect');
             
-            // Start polling for messages if we have an active execution
+            // Resume streaming if an execution was being watched
             if (this.executionId) {
-                this.startPolling();
+                this.startLogStream();
             }
         } catch (error) {
             this.state = 'error';
@@ -55,28 +69,45 @@ export class RESTAdapter extends EventEmitter implements ConnectionAdapter {
     }
 
     private async setupAuth(): Promise<void> {
-        if (this.config.auth?.type === 'token' && this.config.auth.token) {
-            const token = typeof this.config.auth.token === 'function'
-                ? await this.config.auth.token()
-                : this.config.auth.token;
-            
-            this.headers['Authorization'] = `Bearer ${token}`;
-        } else if (this.config.auth?.type === 'jwt' && this.config.auth.token) {
-            const token = typeof this.config.auth.token === 'function'
-                ? await this.config.auth.token()
-                : this.config.auth.token;
-            
-            this.headers['Authorization'] = `Bearer ${token}`;
-        }
-        
         // Always set content type
         this.headers['Content-Type'] = 'application/json';
+
+        this.setAuthorization(await this.tokens.getToken());
+    }
+
+    // Registered while connected, so a discarded adapter doesn't keep handling logins
+    private passwordLogin = (): Promise<string> => this.loginWithPassword();
+
+    private async loginWithPassword(): Promise<string> {
+        const { username, password } = this.config.auth?.credentials || {};
+        if (!username || !password) {
+            throw new Error('auth.credentials.username and auth.credentials.password are required');
+        }
+
+        const response = await this.send('/api/v1/auth/login', {
+            method: 'POST',
+            body: JSON.stringify({ username, password })
+        });
+
+        if (!response.ok) {
+            throw new Error(`Login failed: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        return data.token;
+    }
+
+    private setAuthorization(token: string | undefined): void {
+        if (token) {
+            this.headers['Authorization'] = `Bearer ${token}`;
+        } else {
+            delete this.headers['Authorization'];
+        }
     }
 
     private async healthCheck(): Promise<void> {
-        const response = await fetch(`${this.baseUrl}/api/v1/agents/health`, {
-            method: 'GET',
-            headers: this.headers
+        const response = await this.request('/api/v1/agents/health', {
+            method: 'GET'
         });
 
         if (!response.ok) {
@@ -84,26 +115,274 @@ export class RESTAdapter extends EventEmitter implements ConnectionAdapter {
         }
     }
 
-    public async sendMessage(text: string): Promise<void> {
-        // REST adapter doesn't support text messaging for voice workers
-        // Text messages must go through WebRTC data channel
-        throw new Error('Text messages are only supported through WebRTC connection. Enable voice feature to send messages.');
+    /**
+     * Text chat without WebRTC. The reply is either streamed back as SSE or returned as JSON
+     */
+    public async sendMessage(text: string, sessionId?: string): Promise<void> {
+        const response = await this.request('/api/v1/voice/text-message', {
+            method: 'POST',
+            headers: {
+                'Accept': 'text/event-stream, application/json'
+            },
+            body: JSON.stringify({
+                workerId: this.config.workerId,
+                sessionId,
+                text
+            })
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to send message: ${response.statusText}`);
+        }
+
+        const contentType = response.headers.get('Content-Type') || '';
+        if (contentType.includes('text/event-stream') && response.body) {
+            await this.readReplyStream(response.body);
+            return;
+        }
+
+        const reply = await response.json();
+        if (reply?.content) {
+            this.emitReply(reply);
+        }
+    }
+
+    private async readReplyStream(body: ReadableStream<Uint8Array>): Promise<void> {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let content = '';
+        let endsInCR = false;
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            // SSE lines may end in \r\n or \r as well as \n, and a \r\n may be split across chunks
+            let text = decoder.decode(value, { stream: true });
+            if (endsInCR && text.startsWith('\n')) {
+                text = text.slice(1);
+            }
+            endsInCR = text.endsWith('\r');
+            buffer += text.replace(/\r\n?/g, '\n');
+
+            // SSE events are separated by a blank line
+            const events = buffer.split('\n\n');
+            buffer = events.pop() || '';
+
+            for (const event of events) {
+                const data = event
+                    .split('\n')
+                    .filter(line => line.startsWith('data:'))
+                    .map(line => line.slice(5).trim())
+                    .join('\n');
+                if (!data) continue;
+
+                // Keep-alives and malformed events don't end the reply
+                let chunk: any;
+                try {
+                    chunk = JSON.parse(data);
+                } catch {
+                    console.warn('REST: Skipping unreadable reply event', data);
+                    continue;
+                }
+                if (chunk.delta) {
+                    content += chunk.delta;
+                    this.emit('text:delta', chunk.delta);
+                }
+                if (chunk.done) {
+                    this.emitReply({ ...chunk, content: chunk.content || content });
+                    return;
+                }
+            }
+        }
+
+        if (content) {
+            this.emitReply({ content });
+        }
+    }
+
+    private emitReply(reply: any): void {
+        this.emit('message', {
+            id: reply.id,
+            type: 'assistant',
+            content: reply.content,
+            timestamp: reply.timestamp,
+            source: 'text'
+        });
+        this.emit('response:complete', reply.content);
+    }
+
+    public watchExecutionLogs(executionId: string): void {
+        if (this.executionId === executionId && (this.eventSource || this.pollTimer)) {
+            return;
+        }
+
+        this.unwatchExecutionLogs();
+        this.executionId = executionId;
+        this.lastMessageId = null;
+
+        if (this.state === 'connected') {
+            this.startLogStream();
+        }
+    }
+
+    public unwatchExecutionLogs(): void {
+        this.stopLogStream();
+        this.executionId = null;
+    }
+
+    private startLogStream(): void {
+        const mode = this.config.features?.executionLogs || 'auto';
+
+        if (mode === 'off') {
+            return;
+        }
+
+        if (mode !== 'poll' && typeof EventSource !== 'undefined') {
+            this.openEventStream(mode === 'auto');
+        } else {
+            this.startPolling();
+        }
+    }
+
+    /**
+     * EventSource can't send headers, and a token in the URL would end up in access logs and history,
+     * so an authenticated stream opens with a short-lived ticket; without one, logs are polled
+     */
+    private async openEventStream(fallbackToPolling: boolean): Promise<void> {
+        const executionId = this.executionId;
+        let ticket: string | null = null;
+
+        if (this.headers['Authorization']) {
+            try {
+                ticket = await this.getStreamTicket(executionId!);
+            } catch (error) {
+                console.warn('REST: No stream ticket, polling execution logs instead', error);
+                if (this.executionId === executionId) {
+                    this.startPolling();
+                }
+                return;
+            }
+        }
+
+        // Unwatched or switched while the ticket was requested
+        if (this.executionId !== executionId || this.eventSource) {
+            return;
+        }
+        this.startEventStream(fallbackToPolling, ticket);
+    }
+
+    private async getStreamTicket(executionId: string): Promise<string> {
+        const response = await this.request('/api/v1/execution-logs/stream-ticket', {
+            method: 'POST',
+            body: JSON.stringify({ executionId })
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to get stream ticket: ${response.statusText}`);
+        }
+
+        const { ticket } = await response.json();
+        if (!ticket) {
+            throw new Error('Stream ticket missing from response');
+        }
+        return ticket;
+    }
+
+    private stopLogStream(): void {
+        if (this.eventSource) {
+            this.eventSource.close();
+            this.eventSource = null;
+        }
+
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+            this.pollTimer = null;
+        }
+    }
+
+    private startEventStream(fallbackToPolling: boolean, ticket: string | null): void {
+        const params = new URLSearchParams({
+            executionId: this.executionId!
+        });
+
+        if (this.lastMessageId) {
+            params.append('after', this.lastMessageId);
+        }
+
+        if (ticket) {
+            params.append('ticket', ticket);
+        }
+
+        const source = new EventSource(`${this.baseUrl}/api/v1/execution-logs/stream?${params}`);
+        let opened = false;
+
+        source.onopen = () => {
+            opened = true;
+            console.log('REST: Streaming execution logs over SSE');
+        };
+
+        source.onmessage = (event: MessageEvent) => {
+            try {
+                const data = JSON.parse(event.data);
+                const logs = Array.isArray(data) ? data : [data];
+                logs.forEach((log: any) => {
+                    this.handleResponse(log);
+                    this.lastMessageId = log.id;
+                });
+            } catch (error) {
+                console.error('REST: Invalid execution log event:', error);
+            }
+        };
+
+        source.onerror = () => {
+            // EventSource retries on its own unless the server refused the stream
+            if (opened && source.readyState !== EventSource.CLOSED) {
+                return;
+            }
+
+            source.close();
+            this.eventSource = null;
+
+            if (fallbackToPolling && this.executionId) {
+                console.warn('REST: SSE unavailable, falling back to polling');
+                this.startPolling();
+            }
+        };
+
+        this.eventSource = source;
     }
 
     private startPolling(): void {
-        if (this.pollInterval) {
+        if (this.pollTimer) {
             return;
         }
 
-        // Poll every 2 seconds for new messages
-        this.pollInterval = setInterval(() => {
-            this.pollForMessages();
-        }, 2000);
+        this.pollDelay = RESTAdapter.MIN_POLL_INTERVAL_MS;
+        this.schedulePoll();
+    }
+
+    private schedulePoll(): void {
+        this.pollTimer = setTimeout(async () => {
+            const received = await this.pollForMessages();
+
+            if (!this.pollTimer) {
+                return; // Stopped while the request was in flight
+            }
+
+            // Poll quickly while logs flow, back off while the execution is idle
+            this.pollDelay = received > 0
+                ? RESTAdapter.MIN_POLL_INTERVAL_MS
+                : Math.min(this.pollDelay * RESTAdapter.POLL_BACKOFF_FACTOR, RESTAdapter.MAX_POLL_INTERVAL_MS);
+
+            this.schedulePoll();
+        }, this.pollDelay);
     }
 
-    private async pollForMessages(): Promise<void> {
+    private async pollForMessages(): Promise<number> {
         if (!this.executionId || this.state !== 'connected') {
-            return;
+            return 0;
         }
 
         try {
@@ -115,14 +394,13 @@ export class RESTAdapter extends EventEmitter implements ConnectionAdapter {
                 params.append('after', this.lastMessageId);
             }
 
-            const response = await fetch(`${this.baseUrl}/api/v1/execution-logs?${params}`, {
-                method: 'GET',
-                headers: this.headers
+            const response = await this.request(`/api/v1/execution-logs?${params}`, {
+                method: 'GET'
             });
 
             if (!response.ok) {
                 console.error('Failed to poll for messages:', response.statusText);
-                return;
+                return 0;
             }
 
             const logs = await response.json();
@@ -132,30 +410,23 @@ export class RESTAdapter extends EventEmitter implements ConnectionAdapter {
                     this.handleResponse(log);
                     this.lastMessageId = log.id;
                 });
+                return logs.length;
             }
         } catch (error) {
             console.error('Polling error:', error);
         }
+
+        return 0;
     }
 
     private handleResponse(data: any): void {
         // Convert response to message format
-        const message = {
-            id: data.id || Date.now().toString(),
-            content: data.content || data.message || data.text || '',
-            type: data.type || 'assistant',
-            timestamp: data.timestamp || new Date().toISOString(),
-            metadata: data.metadata || {}
-        };
-
-        this.emit('message', message);
+        this.emit('message', normalizeExecutionLog(data));
     }
 
     public disconnect(): void {
-        if (this.pollInterval) {
-            clearInterval(this.pollInterval);
-            this.pollInterval = null;
-        }
+        this.stopLogStream();
+        this.tokens.removeLoginHandler(this.passwordLogin);
         
         this.state = 'disconnected';
         this.emit('disconnect');
@@ -166,12 +437,13 @@ export class RESTAdapter extends EventEmitter implements ConnectionAdapter {
     }
 
     // Voice-specific methods (REST implementation)
-    public async getEphemeralKey(): Promise<any> {
-        const response = await fetch(`${this.baseUrl}/api/v1/voice/ephemeral-key`, {
+    public async getEphemeralKey(context?: ConversationContext, voice?: string): Promise<any> {
+        const response = await this.request('/api/v1/voice/ephemeral-key', {
             method: 'POST',
-            headers: this.headers,
             body: JSON.stringify({
-                workerId: this.config.workerId
+                workerId: this.config.workerId,
+                voice,
+                context
             })
         });
 
@@ -183,9 +455,8 @@ export class RESTAdapter extends EventEmitter implements ConnectionAdapter {
     }
 
     public async processRealtimeToolCall(toolCall: any): Promise<any> {
-        const response = await fetch(`${this.baseUrl}/api/v1/voice/tool-call`, {
+        const response = await this.request('/api/v1/voice/tool-call', {
             method: 'POST',
-            headers: this.headers,
             body: JSON.stringify({
                 workerId: this.config.workerId,
                 toolCall
@@ -200,12 +471,8 @@ export class RESTAdapter extends EventEmitter implements ConnectionAdapter {
     }
 
     public async logConversationMessage(data: any): Promise<void> {
-        const response = await fetch(`${this.baseUrl}/api/v1/voice/log-message`, {
+        const response = await this.request('/api/v1/voice/log-message', {
             method: 'POST',
-            headers: {
-                ...this.headers,
-                'Content-Type': 'application/json'
-            },
             body: JSON.stringify(data)
         });
 
@@ -214,11 +481,45 @@ export class RESTAdapter extends EventEmitter implements ConnectionAdapter {
         }
     }
 
+    public async listConversations(): Promise<StoredConversation[]> {
+        const response = await this.request(`/api/v1/voice/conversations?workerId=${encodeURIComponent(this.config.workerId)}`);
+
+        if (!response.ok) {
+            throw new Error(`Failed to list conversations: ${response.statusText}`);
+        }
+
+        const result = await response.json();
+        return (result.conversations || result).map(fromServerConversation);
+    }
+
+    public async getConversation(sessionId: string): Promise<Message[]> {
+        const response = await this.request(`/api/v1/voice/conversations/${encodeURIComponent(sessionId)}`);
+
+        if (!response.ok) {
+            throw new Error(`Failed to load conversation: ${response.statusText}`);
+        }
+
+        const result = await response.json();
+        return (result.messages || result).map(fromServerMessage);
+    }
+
     // Helper method to make authenticated requests
+    // A 401 refreshes the token and retries once
     private async request(path: string, options: RequestInit = {}): Promise<Response> {
-        const url = `${this.baseUrl}${path}`;
-        
-        return fetch(url, {
+        this.setAuthorization(await this.tokens.getToken());
+        const response = await this.send(path, options);
+
+        if (response.status !== 401 || !this.tokens.canRefresh()) {
+            return response;
+        }
+
+        console.warn('REST: Request rejected with 401, refreshing token and retrying once');
+        this.setAuthorization(await this.tokens.refresh());
+        return this.send(path, options);
+    }
+
+    private send(path: string, options: RequestInit): Promise<Response> {
+        return fetch(`${this.baseUrl}${path}`, {
             ...options,
             headers: {
                 ...this.headers,
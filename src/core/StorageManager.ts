@@ -1,68 +1,303 @@
-import { Message } from '../types';
+import { ConnectionTransport, ConversationStore, Message, PersistenceMode, RetentionPolicy, StorageNamespace, StoredConversation } from '../types';
+import { fromStoredMessage } from './Conversations';
+import { IndexedDBConversationStore } from './IndexedDBConversationStore';
+import { WebStorageConversationStore } from './WebStorageConversationStore';
 
 export class StorageManager {
-    private storageType: 'none' | 'session' | 'local';
-    private storageKey = 'everworker-voice-messages';
+    private static readonly DEFAULT_MAX_CONVERSATIONS = 20;
+    private static readonly DEFAULT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;  // 30 days
+    private static readonly DEFAULT_MAX_MESSAGES = 500;
+    // Keys written by versions without conversation history; they were shared by every instance
+    private static readonly LEGACY_MESSAGES_KEY = 'everworker-voice-messages';
+    private static readonly LEGACY_WELCOME_KEY = 'ew-welcome-dismissed';
+    // Namespaces of the instances on this page: the legacy transcript can't say which one it belongs to
+    private static readonly instances = new Set<string>();
 
-    constructor(storageType: 'none' | 'session' | 'local') {
+    private storageType: PersistenceMode;
+    private base: string;               // Worker and endpoint
+    private prefix: string;             // Every key of the current user starts with it
+    private credentialPrefix: string;   // Sign-in state stays with the user the host page configured
+    private retention: Required<RetentionPolicy>;
+    private conversations: ConversationStore | null;
+    private legacyMigrated = false;
+
+    constructor(storageType: PersistenceMode, namespace: StorageNamespace, retention: RetentionPolicy = {}) {
         this.storageType = storageType;
+        this.base = ['everworker-voice', namespace.workerId, namespace.endpoint]
+            .map(encodeURIComponent)
+            .join('/') + '/';
+        this.prefix = this.userPrefix(namespace.userId);
+        this.credentialPrefix = `${this.prefix}credentials/`;
+        this.retention = {
+            maxConversations: retention.maxConversations ?? StorageManager.DEFAULT_MAX_CONVERSATIONS,
+            maxAge: retention.maxAge ?? StorageManager.DEFAULT_MAX_AGE_MS,
+            maxMessagesPerConversation: retention.maxMessagesPerConversation ?? StorageManager.DEFAULT_MAX_MESSAGES
+        };
+        this.conversations = this.createConversationStore();
+        StorageManager.instances.add(this.prefix);
+        this.migrateWelcomeFlag();
+    }
+
+    private userPrefix(userId?: string): string {
+        return `${this.base}${encodeURIComponent(userId || '-')}/`;
+    }
+
+    /**
+     * Move to another user's data, e.g. once a login reveals who signed in
+     * Returns false when the user was already current
+     */
+    public setUserId(userId?: string): boolean {
+        const prefix = this.userPrefix(userId);
+        if (prefix === this.prefix) {
+            return false;
+        }
+
+        StorageManager.instances.delete(this.prefix);
+        StorageManager.instances.add(prefix);
+        this.prefix = prefix;
+        this.migrateWelcomeFlag();
+        return true;
     }
 
-    public async loadMessages(): Promise<Message[]> {
+    private createConversationStore(): ConversationStore | null {
         if (this.storageType === 'none') {
+            return null;
+        }
+
+        if (this.storageType === 'indexeddb') {
+            if (IndexedDBConversationStore.isSupported()) {
+                return new IndexedDBConversationStore();
+            }
+            console.warn('IndexedDB is not available, keeping conversations in localStorage');
+        }
+
+        try {
+            return new WebStorageConversationStore(this.getStorage());
+        } catch (error) {
+            // Storage access throws in sandboxed iframes and some privacy modes
+            console.error('Conversation storage is not available:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Saved conversations for this worker, most recently updated first
+     */
+    public async listConversations(): Promise<StoredConversation[]> {
+        if (!this.conversations) {
             return [];
         }
 
         try {
-            const storage = this.getStorage();
-            const data = storage.getItem(this.storageKey);
-            
-            if (!data) {
-                return [];
-            }
+            await this.migrateLegacyConversations();
+            return await this.conversations.listConversations(this.prefix);
+        } catch (error) {
+            console.error('Failed to list conversations from storage:', error);
+            return [];
+        }
+    }
+
+    public async loadMessages(sessionId: string): Promise<Message[]> {
+        if (!this.conversations) {
+            return [];
+        }
 
-            const messages = JSON.parse(data);
-            // Convert timestamps back to Date objects
-            return messages.map((msg: any) => ({
-                ...msg,
-                timestamp: new Date(msg.timestamp)
-            }));
+        try {
+            return await this.conversations.loadMessages(this.prefix, sessionId);
         } catch (error) {
             console.error('Failed to load messages from storage:', error);
             return [];
         }
     }
 
-    public async saveMessages(messages: Message[]): Promise<void> {
-        if (this.storageType === 'none') {
+    /**
+     * Save one message; when storage is full the oldest conversations are evicted to make room
+     */
+    public async appendMessage(sessionId: string, message: Message): Promise<void> {
+        if (!this.conversations) {
+            return;
+        }
+
+        for (;;) {
+            try {
+                await this.conversations.appendMessage(this.prefix, sessionId, message);
+                return;
+            } catch (error) {
+                if (!this.isQuotaExceeded(error) || !(await this.makeRoom(sessionId))) {
+                    console.error('Failed to save message to storage:', error);
+                    return;
+                }
+            }
+        }
+    }
+
+    /**
+     * Rewrite a conversation in the given order (e.g. after merging in the server's copy)
+     */
+    public async replaceConversation(sessionId: string, messages: Message[]): Promise<void> {
+        await this.deleteConversation(sessionId);
+        for (const message of messages) {
+            await this.appendMessage(sessionId, message);
+        }
+    }
+
+    public async deleteConversation(sessionId: string): Promise<void> {
+        if (!this.conversations) {
             return;
         }
 
         try {
-            const storage = this.getStorage();
-            // Limit stored messages to last 100
-            const messagesToStore = messages.slice(-100);
-            storage.setItem(this.storageKey, JSON.stringify(messagesToStore));
+            await this.conversations.deleteConversation(this.prefix, sessionId);
         } catch (error) {
-            console.error('Failed to save messages to storage:', error);
-            // Handle quota exceeded or other storage errors
-            if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-                this.clearMessages();
-            }
+            console.error('Failed to delete conversation from storage:', error);
         }
     }
 
-    public clearMessages(): void {
-        if (this.storageType === 'none') {
+    /**
+     * Apply the retention policy; the active conversation is only ever trimmed, never dropped
+     */
+    public async prune(activeSessionId?: string | null): Promise<void> {
+        if (!this.conversations) {
             return;
         }
 
         try {
-            const storage = this.getStorage();
-            storage.removeItem(this.storageKey);
+            const { maxConversations, maxAge, maxMessagesPerConversation } = this.retention;
+            const cutoff = Date.now() - maxAge;
+            const conversations = await this.conversations.listConversations(this.prefix);
+
+            for (const [index, conversation] of conversations.entries()) {
+                const expired = index >= maxConversations || conversation.updatedAt.getTime() < cutoff;
+                if (expired && conversation.sessionId !== activeSessionId) {
+                    await this.conversations.deleteConversation(this.prefix, conversation.sessionId);
+                } else if (conversation.messageCount > maxMessagesPerConversation) {
+                    await this.conversations.trimMessages(this.prefix, conversation.sessionId, maxMessagesPerConversation);
+                }
+            }
         } catch (error) {
-            console.error('Failed to clear messages from storage:', error);
+            console.error('Failed to apply conversation retention:', error);
+        }
+    }
+
+    private async makeRoom(activeSessionId: string): Promise<boolean> {
+        const conversations = await this.conversations!.listConversations(this.prefix);
+
+        const oldest = conversations.filter(c => c.sessionId !== activeSessionId).pop();
+        if (oldest) {
+            console.warn(`Storage full, evicting conversation ${oldest.sessionId}`);
+            await this.conversations!.deleteConversation(this.prefix, oldest.sessionId);
+            return true;
+        }
+
+        // Only the active conversation is left: drop its older half
+        const active = conversations.find(c => c.sessionId === activeSessionId);
+        if (active && active.messageCount > 1) {
+            console.warn('Storage full, trimming the oldest messages of the current conversation');
+            await this.conversations!.trimMessages(this.prefix, activeSessionId, Math.floor(active.messageCount / 2));
+            return true;
         }
+
+        return false;
+    }
+
+    private isQuotaExceeded(error: unknown): boolean {
+        return error instanceof DOMException &&
+            (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+    }
+
+    /**
+     * The welcome dismissal used to be one flag per tab; every instance starts from it
+     */
+    private migrateWelcomeFlag(): void {
+        try {
+            if (window.sessionStorage.getItem(StorageManager.LEGACY_WELCOME_KEY) === 'true') {
+                this.saveSessionItem('welcome-dismissed', true);
+            }
+        } catch (error) {
+            console.error('Failed to migrate the welcome flag:', error);
+        }
+    }
+
+    /**
+     * The single transcript of earlier versions ('everworker-voice-messages') names no worker,
+     * so it only becomes a conversation when this is the one instance on the page
+     */
+    private async migrateLegacyConversations(): Promise<void> {
+        if (this.legacyMigrated || !this.conversations) {
+            return;
+        }
+        this.legacyMigrated = true;
+
+        const storage = this.getStorage();
+        const blob = storage.getItem(StorageManager.LEGACY_MESSAGES_KEY);
+        if (!blob) {
+            return;
+        }
+
+        // Let instances created by the same page script register first
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (StorageManager.instances.size > 1) {
+            console.warn('Several voice plugin instances on this page, leaving the earlier transcript unclaimed');
+            return;
+        }
+
+        const sessionId = `imported-${Date.now()}`;
+        for (const message of JSON.parse(blob).map(fromStoredMessage)) {
+            await this.conversations.appendMessage(this.prefix, sessionId, message);
+        }
+        storage.removeItem(StorageManager.LEGACY_MESSAGES_KEY);
+    }
+
+    /**
+     * Keys this instance has written (local and session storage), for debugging
+     * Conversations kept in IndexedDB are listed by listConversations()
+     */
+    public keys(): string[] {
+        const keys = new Set<string>();
+        [window.localStorage, window.sessionStorage].forEach(storage => {
+            try {
+                this.storageKeys(storage)
+                    .filter(key => this.owns(key))
+                    .forEach(key => keys.add(key));
+            } catch {
+                // Storage might not be available
+            }
+        });
+        return Array.from(keys);
+    }
+
+    /**
+     * Remove everything saved for this worker, endpoint and user, sign-in state included (e.g. on logout)
+     */
+    public async clear(): Promise<void> {
+        for (const conversation of await this.listConversations()) {
+            await this.deleteConversation(conversation.sessionId);
+        }
+
+        [window.localStorage, window.sessionStorage].forEach(storage => {
+            try {
+                this.storageKeys(storage)
+                    .filter(key => this.owns(key))
+                    .forEach(key => storage.removeItem(key));
+            } catch (error) {
+                console.error('Failed to clear storage:', error);
+            }
+        });
+    }
+
+    private owns(key: string): boolean {
+        return key.startsWith(this.prefix) || key.startsWith(this.credentialPrefix);
+    }
+
+    private storageKeys(storage: Storage): string[] {
+        const keys: string[] = [];
+        for (let i = 0; i < storage.length; i++) {
+            const key = storage.key(i);
+            if (key !== null) {
+                keys.push(key);
+            }
+        }
+        return keys;
     }
 
     private getStorage(): Storage {
@@ -73,32 +308,82 @@ export class StorageManager {
         }
     }
 
+    public saveTransport(endpoint: string, transport: ConnectionTransport): void {
+        const transports = this.loadConfig('transports') || {};
+        transports[endpoint] = transport;
+        this.saveConfig('transports', transports);
+    }
+
+    public loadTransport(endpoint: string): ConnectionTransport | null {
+        const transports = this.loadConfig('transports');
+        return transports?.[endpoint] || null;
+    }
+
     // Additional storage utilities
     public saveConfig(key: string, value: any): void {
+        this.saveItem(this.prefix + key, value);
+    }
+
+    public loadConfig(key: string): any {
+        return this.loadItem(this.prefix + key);
+    }
+
+    /**
+     * Tokens of a password or OAuth login; read before anyone is known to be signed in
+     */
+    public saveCredential(key: string, value: any): void {
+        this.saveItem(this.credentialPrefix + key, value);
+    }
+
+    public loadCredential(key: string): any {
+        return this.loadItem(this.credentialPrefix + key);
+    }
+
+    private saveItem(key: string, value: any): void {
         if (this.storageType === 'none') {
             return;
         }
 
         try {
             const storage = this.getStorage();
-            storage.setItem(`everworker-voice-${key}`, JSON.stringify(value));
+            storage.setItem(key, JSON.stringify(value));
         } catch (error) {
             console.error(`Failed to save ${key} to storage:`, error);
         }
     }
 
-    public loadConfig(key: string): any {
+    private loadItem(key: string): any {
         if (this.storageType === 'none') {
             return null;
         }
 
         try {
             const storage = this.getStorage();
-            const data = storage.getItem(`everworker-voice-${key}`);
+            const data = storage.getItem(key);
             return data ? JSON.parse(data) : null;
         } catch (error) {
             console.error(`Failed to load ${key} from storage:`, error);
             return null;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Per-tab flags (sessionStorage whatever the persistence mode), e.g. a dismissed welcome
+     */
+    public saveSessionItem(key: string, value: any): void {
+        try {
+            window.sessionStorage.setItem(this.prefix + key, JSON.stringify(value));
+        } catch {
+            // SessionStorage might not be available
+        }
+    }
+
+    public loadSessionItem(key: string): any {
+        try {
+            const data = window.sessionStorage.getItem(this.prefix + key);
+            return data ? JSON.parse(data) : null;
+        } catch {
+            return null;
+        }
+    }
+}
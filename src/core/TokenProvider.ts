@@ -0,0 +1,195 @@
+import { AuthConfig } from '../types';
+import { EventEmitter } from './EventEmitter';
+import { StorageManager } from './StorageManager';
+
+/**
+ * Resolves and caches the auth token shared by all adapters
+ * Function tokens are re-resolved shortly before their JWT `exp` and after an unauthorized response.
+ * Password and OAuth logins go through a login handler and their token is persisted for returning users.
+ */
+export class TokenProvider extends EventEmitter {
+    private static readonly REFRESH_BEFORE_EXPIRY_MS = 60 * 1000;
+    private static readonly STORAGE_KEY = 'auth-token';
+
+    private auth?: AuthConfig;
+    private storage?: StorageManager;
+    private token: string | undefined;
+    private expiresAt: number | null = null;
+    private pending: Promise<string | undefined> | null = null;
+    private loginHandler: (() => Promise<string>) | null = null;
+
+    constructor(auth?: AuthConfig, storage?: StorageManager) {
+        super();
+        this.auth = auth;
+        this.storage = storage;
+    }
+
+    public async getToken(): Promise<string | undefined> {
+        if (this.token === undefined) {
+            const stored = this.getStoredToken();
+            if (stored) {
+                this.setToken(stored);
+            }
+        }
+
+        if (this.token === undefined || this.isExpiring()) {
+            return this.refresh();
+        }
+        return this.token;
+    }
+
+    /**
+     * Token already known (cached or persisted), without triggering a login
+     */
+    public getStoredToken(): string | undefined {
+        if (this.token !== undefined) {
+            return this.token;
+        }
+        if (!this.usesLogin()) {
+            return undefined;
+        }
+        return this.storage?.loadCredential(TokenProvider.STORAGE_KEY) || undefined;
+    }
+
+    /**
+     * How password/OAuth tokens are obtained; registered by the adapter or plugin that can log in
+     */
+    public setLoginHandler(handler: (() => Promise<string>) | null): void {
+        this.loginHandler = handler;
+    }
+
+    /**
+     * Drop a handler when its owner goes away (a newer one registered meanwhile is kept)
+     */
+    public removeLoginHandler(handler: () => Promise<string>): void {
+        if (this.loginHandler === handler) {
+            this.loginHandler = null;
+        }
+    }
+
+    /**
+     * Store a token obtained by a login, persisting it so returning users skip the login
+     */
+    public setToken(token: string): void {
+        const previous = this.token;
+        this.token = token;
+        this.expiresAt = this.decodeExpiry(token);
+
+        if (this.usesLogin()) {
+            this.storage?.saveCredential(TokenProvider.STORAGE_KEY, token);
+        }
+
+        if (previous !== undefined && previous !== token) {
+            this.emit('refreshed', token);
+        }
+    }
+
+    /**
+     * Forget the token, e.g. on logout or when the server no longer accepts it
+     */
+    public clear(): void {
+        this.token = undefined;
+        this.expiresAt = null;
+        if (this.usesLogin()) {
+            this.storage?.saveCredential(TokenProvider.STORAGE_KEY, null);
+        }
+    }
+
+    /**
+     * Re-resolve the token. Concurrent callers share one refresh.
+     */
+    public refresh(): Promise<string | undefined> {
+        if (!this.pending) {
+            this.pending = this.resolve().finally(() => {
+                this.pending = null;
+            });
+        }
+        return this.pending;
+    }
+
+    /**
+     * Whether refresh() can produce a different token (static strings can't)
+     */
+    public canRefresh(): boolean {
+        return typeof this.auth?.token === 'function' || (this.usesLogin() && this.loginHandler !== null);
+    }
+
+    /**
+     * Run a request with the current token, refreshing and retrying once if it is rejected
+     */
+    public async withRetry<T>(
+        request: (token: string | undefined) => Promise<T>,
+        isUnauthorized: (error: any) => boolean
+    ): Promise<T> {
+        const token = await this.getToken();
+
+        try {
+            return await request(token);
+        } catch (error) {
+            if (!this.canRefresh() || !isUnauthorized(error)) {
+                throw error;
+            }
+
+            console.warn('Auth: Request rejected as unauthorized, refreshing token and retrying once');
+            return request(await this.refresh());
+        }
+    }
+
+    private async resolve(): Promise<string | undefined> {
+        if (this.usesLogin()) {
+            if (!this.loginHandler) {
+                return undefined;
+            }
+            this.setToken(await this.loginHandler());
+            return this.token;
+        }
+
+        if (!this.auth || this.auth.type === 'anonymous' || !this.auth.token) {
+            return undefined;
+        }
+
+        const token = typeof this.auth.token === 'function'
+            ? await this.auth.token()
+            : this.auth.token;
+
+        this.setToken(token);
+        return token;
+    }
+
+    private usesLogin(): boolean {
+        return this.auth?.type === 'password' || this.auth?.type === 'oauth';
+    }
+
+    private isExpiring(): boolean {
+        return this.expiresAt !== null
+            && this.canRefresh()
+            && Date.now() >= this.expiresAt - TokenProvider.REFRESH_BEFORE_EXPIRY_MS;
+    }
+
+    private decodeExpiry(token: string): number | null {
+        // Opaque tokens have no expiry we can read; they are refreshed on rejection only
+        const exp = TokenProvider.decodeClaims(token)?.exp;
+        return typeof exp === 'number' ? exp * 1000 : null;
+    }
+
+    /**
+     * Subject (`sub`) of a JWT, or null for opaque tokens
+     */
+    public static decodeSubject(token: string): string | null {
+        const sub = TokenProvider.decodeClaims(token)?.sub;
+        return typeof sub === 'string' ? sub : null;
+    }
+
+    private static decodeClaims(token: string): Record<string, any> | null {
+        const parts = token.split('.');
+        if (parts.length !== 3) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')));
+        } catch {
+            return null;
+        }
+    }
+}
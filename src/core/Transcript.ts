@@ -0,0 +1,191 @@
+import { Message, TranscriptFormat } from '../types';
+
+/**
+ * Transcript export in the formats offered by plugin.exportTranscript()
+ */
+export interface TranscriptInfo {
+    workerId: string;
+    sessionId: string | null;
+    exportedAt: Date;
+}
+
+export const TRANSCRIPT_FILES: Record<TranscriptFormat, { extension: string; mimeType: string }> = {
+    markdown: { extension: 'md', mimeType: 'text/markdown' },
+    json: { extension: 'json', mimeType: 'application/json' },
+    text: { extension: 'txt', mimeType: 'text/plain' },
+    vtt: { extension: 'vtt', mimeType: 'text/vtt' },
+    html: { extension: 'html', mimeType: 'text/html' }
+};
+
+const SPEAKERS: Record<Message['type'], string> = {
+    user: 'You',
+    assistant: 'Assistant',
+    system: 'System'
+};
+
+// Cue length for the last voice turn, from a typical speaking rate
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_MS = 1000;
+
+export function formatTranscript(messages: Message[], format: TranscriptFormat, info: TranscriptInfo): string {
+    switch (format) {
+        case 'markdown':
+            return toMarkdown(messages, info);
+        case 'json':
+            return toJSON(messages, info);
+        case 'text':
+            return toText(messages, info);
+        case 'vtt':
+            return toWebVTT(messages);
+        case 'html':
+            return toHTML(messages, info);
+        default:
+            throw new Error(`Unknown transcript format: ${format}`);
+    }
+}
+
+function toMarkdown(messages: Message[], info: TranscriptInfo): string {
+    const lines = [`# Conversation transcript`, '', `_Exported ${info.exportedAt.toLocaleString()}_`, ''];
+
+    messages.forEach(message => {
+        const content = message.content.trim().split(/\r?\n/);
+        if (message.type === 'system') {
+            lines.push(quote(content.map(line => line.trim() ? `_${line.trim()}_` : '')), '');
+            return;
+        }
+
+        const label = `**${SPEAKERS[message.type]}** (${formatTime(message.timestamp)}):`;
+        const note = message.interrupted ? ' _(interrupted)_' : '';
+        if (content.length === 1) {
+            lines.push(`${label} ${content[0]}${note}`, '');
+        } else {
+            // Multi-line replies are quoted so their blank lines, lists or headings stay inside the turn
+            lines.push(label, quote(content) + note, '');
+        }
+    });
+
+    return lines.join('\n');
+}
+
+function quote(lines: string[]): string {
+    return lines.map(line => line ? `> ${line}` : '>').join('\n');
+}
+
+function toJSON(messages: Message[], info: TranscriptInfo): string {
+    return JSON.stringify({
+        workerId: info.workerId,
+        sessionId: info.sessionId,
+        exportedAt: info.exportedAt.toISOString(),
+        messages: messages.map(message => ({
+            id: message.id,
+            type: message.type,
+            content: message.content,
+            timestamp: message.timestamp.toISOString(),
+            source: message.source,
+            interrupted: message.interrupted,
+            metadata: message.metadata
+        }))
+    }, null, 2);
+}
+
+function toText(messages: Message[], info: TranscriptInfo): string {
+    const lines = [`Conversation transcript (exported ${info.exportedAt.toLocaleString()})`, ''];
+
+    messages.forEach(message => {
+        const note = message.interrupted ? ' (interrupted)' : '';
+        lines.push(`[${formatTime(message.timestamp)}] ${SPEAKERS[message.type]}: ${message.content}${note}`);
+    });
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Subtitles for the spoken turns, timed from the first one
+ * Messages carry no audio duration, so a cue lasts until the next turn starts
+ */
+function toWebVTT(messages: Message[]): string {
+    const turns = messages.filter(message => message.source === 'voice' && message.type !== 'system' && message.content);
+    const lines = ['WEBVTT', ''];
+    if (!turns.length) return lines.join('\n');
+
+    const origin = turns[0].timestamp.getTime();
+    turns.forEach((turn, index) => {
+        const start = turn.timestamp.getTime() - origin;
+        const spoken = Math.max(MIN_CUE_MS, turn.content.split(/\s+/).length / WORDS_PER_SECOND * 1000);
+        const next = turns[index + 1];
+        const end = next ? Math.max(start + 1, next.timestamp.getTime() - origin) : start + spoken;
+
+        lines.push(
+            String(index + 1),
+            `${formatCueTime(start)} --> ${formatCueTime(end)}`,
+            // A blank line would end the cue early
+            `<v ${SPEAKERS[turn.type]}>${escapeHTML(turn.content.trim().replace(/\n\s*\n/g, '\n'))}`,
+            ''
+        );
+    });
+
+    return lines.join('\n');
+}
+
+function toHTML(messages: Message[], info: TranscriptInfo): string {
+    const rows = messages.map(message => {
+        const note = message.interrupted ? ' <em class="note">(interrupted)</em>' : '';
+        return `    <div class="message ${message.type}">
+      <div class="meta">${SPEAKERS[message.type]} · ${formatTime(message.timestamp)}</div>
+      <div class="content">${escapeHTML(message.content)}${note}</div>
+    </div>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Conversation transcript</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 720px; margin: 32px auto; padding: 0 16px; color: #111; }
+    h1 { font-size: 20px; margin-bottom: 4px; }
+    .exported { color: #666; font-size: 12px; margin-bottom: 24px; }
+    .message { margin-bottom: 16px; page-break-inside: avoid; }
+    .meta { color: #666; font-size: 12px; margin-bottom: 2px; }
+    .content { font-size: 14px; line-height: 1.5; white-space: pre-wrap; }
+    .user .meta { color: #ff0d40; }
+    .system .content { color: #666; font-style: italic; }
+    .note { color: #666; }
+    @media print {
+      body { margin: 0; max-width: none; }
+      @page { margin: 20mm; }
+    }
+  </style>
+</head>
+<body>
+  <h1>Conversation transcript</h1>
+  <div class="exported">Exported ${escapeHTML(info.exportedAt.toLocaleString())}</div>
+  <main>
+${rows}
+  </main>
+</body>
+</html>
+`;
+}
+
+function formatTime(date: Date): string {
+    return date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+// HH:MM:SS.mmm
+function formatCueTime(ms: number): string {
+    const total = Math.max(0, Math.round(ms));
+    const hours = Math.floor(total / 3600000);
+    const minutes = Math.floor(total / 60000) % 60;
+    const seconds = Math.floor(total / 1000) % 60;
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(total % 1000, 3)}`;
+}
+
+function escapeHTML(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,106 @@
+import { ConversationStore, Message, StoredConversation } from '../types';
+import { conversationTitle, fromStoredMessage } from './Conversations';
+
+/**
+ * Conversations in sessionStorage or localStorage
+ * An index lists the conversations; each conversation's messages live under their own key,
+ * so a write only rewrites the conversation it belongs to.
+ */
+export class WebStorageConversationStore implements ConversationStore {
+    private storage: Storage;
+
+    constructor(storage: Storage) {
+        this.storage = storage;
+    }
+
+    public async listConversations(namespace: string): Promise<StoredConversation[]> {
+        return this.readIndex(namespace)
+            .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    }
+
+    public async loadMessages(namespace: string, sessionId: string): Promise<Message[]> {
+        return this.readMessages(namespace, sessionId);
+    }
+
+    public async appendMessage(namespace: string, sessionId: string, message: Message): Promise<void> {
+        const messages = this.readMessages(namespace, sessionId);
+        const existing = messages.findIndex(m => m.id === message.id);
+        if (existing >= 0) {
+            messages[existing] = message;
+        } else {
+            messages.push(message);
+        }
+        this.writeMessages(namespace, sessionId, messages);
+
+        const index = this.readIndex(namespace);
+        const conversation = index.find(c => c.sessionId === sessionId);
+        const now = new Date();
+        if (conversation) {
+            conversation.updatedAt = now;
+            conversation.messageCount = messages.length;
+            conversation.title = conversation.title || conversationTitle(message);
+        } else {
+            // Imported history starts when its first message was sent, not when it was copied here
+            index.push({ sessionId, title: conversationTitle(message), messageCount: messages.length, createdAt: message.timestamp, updatedAt: now });
+        }
+        this.writeIndex(namespace, index);
+    }
+
+    public async trimMessages(namespace: string, sessionId: string, keep: number): Promise<void> {
+        const messages = this.readMessages(namespace, sessionId);
+        if (messages.length <= keep) return;
+
+        this.writeMessages(namespace, sessionId, messages.slice(-keep));
+        const index = this.readIndex(namespace);
+        const conversation = index.find(c => c.sessionId === sessionId);
+        if (conversation) {
+            conversation.messageCount = keep;
+            this.writeIndex(namespace, index);
+        }
+    }
+
+    public async deleteConversation(namespace: string, sessionId: string): Promise<void> {
+        this.storage.removeItem(this.conversationKey(namespace, sessionId));
+
+        const index = this.readIndex(namespace).filter(c => c.sessionId !== sessionId);
+        if (index.length) {
+            this.writeIndex(namespace, index);
+        } else {
+            this.storage.removeItem(this.indexKey(namespace));
+        }
+    }
+
+    private indexKey(namespace: string): string {
+        return `${namespace}conversations`;
+    }
+
+    private conversationKey(namespace: string, sessionId: string): string {
+        return `${namespace}conversation-${sessionId}`;
+    }
+
+    private readIndex(namespace: string): StoredConversation[] {
+        const data = this.storage.getItem(this.indexKey(namespace));
+        if (!data) return [];
+
+        return JSON.parse(data).map((conversation: any) => ({
+            ...conversation,
+            createdAt: new Date(conversation.createdAt),
+            updatedAt: new Date(conversation.updatedAt)
+        }));
+    }
+
+    private writeIndex(namespace: string, index: StoredConversation[]): void {
+        this.storage.setItem(this.indexKey(namespace), JSON.stringify(index));
+    }
+
+    private readMessages(namespace: string, sessionId: string): Message[] {
+        const data = this.storage.getItem(this.conversationKey(namespace, sessionId));
+        if (!data) return [];
+
+        return JSON.parse(data).map(fromStoredMessage);
+    }
+
+    private writeMessages(namespace: string, sessionId: string, messages: Message[]): void {
+        this.storage.setItem(this.conversationKey(namespace, sessionId), JSON.stringify(messages));
+    }
+}
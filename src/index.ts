@@ -1,6 +1,9 @@
 console.log('🚀 Everworker Voice Plugin: Loading module...');
 
 export { EverworkerVoicePlugin } from './core/EverworkerVoicePlugin';
+export { OpenAIRealtimeProvider } from './voice/OpenAIRealtimeProvider';
+export { DDPError } from './core/DDPError';
+export type { DDPCallOptions } from './core/DDPAdapter';
 export * from './types';
 
 // For CDN usage
@@ -11,18 +11,40 @@ export interface PluginConfig {
     
     // Feature flags
     features?: FeatureConfig;
+
+    // Realtime voice provider
+    realtime?: RealtimeConfig;
+
+    // Model options for each voice session
+    session?: SessionOptions;
     
     // Event callbacks
     callbacks?: CallbackConfig;
 }
 
 export interface AuthConfig {
-    type: 'token' | 'jwt' | 'anonymous';
+    type: 'token' | 'jwt' | 'anonymous' | 'password' | 'oauth';
     token?: string | (() => Promise<string>);
     credentials?: {
-        username?: string;
+        username?: string;  // An address containing '@' logs in by email
         password?: string;
     };
+    oauth?: OAuthConfig;    // Required for type 'oauth'
+    userId?: string;        // Keeps each user's saved data apart (default: credentials.username or the token's `sub`)
+}
+
+export interface OAuthConfig {
+    authorizationUrl: string;
+    tokenUrl: string;
+    clientId: string;
+    redirectUri: string;    // Must be same-origin with the host page so the popup can be read
+    scope?: string;
+    popupTimeout?: number;  // Time the user has to finish signing in in ms (default: 120000)
+}
+
+export interface OAuthTokens {
+    accessToken: string;
+    refreshToken?: string;
 }
 
 export interface UIConfig {
@@ -35,21 +57,171 @@ export interface UIConfig {
     buttonSize?: 'small' | 'medium' | 'large';
     expandedWidth?: string;
     expandedHeight?: string;
+    toolRenderers?: Record<string, ToolRenderer>;  // Custom result renderers by tool name
+}
+
+export interface ToolCallActivity {
+    callId: string;
+    name: string;
+    arguments: any;
+    status: 'running' | 'success' | 'error';
+    local: boolean;         // Handled by a client tool instead of the server
+    startedAt: Date;
+    duration?: number;      // ms, set when the call ends
+    result?: any;
+    error?: string;
 }
 
+// Returns the element (or HTML string) shown as the card body for a finished tool call
+export type ToolRenderer = (activity: ToolCallActivity) => HTMLElement | string | null;
+
 export interface FeatureConfig {
     voice?: boolean;
     text?: boolean;
     tools?: boolean;
-    persistence?: 'none' | 'session' | 'local';
+    persistence?: PersistenceMode;          // Where conversations are kept (default: 'session')
+    retention?: RetentionPolicy;            // Limits for stored conversations; the oldest are evicted first
+    serverHistory?: boolean;                // Signed-in users get their last conversation from the backend on init (default: true)
     autoConnect?: boolean;
     reconnect?: boolean;
     reconnectInterval?: number;
     maxReconnectAttempts?: number;
+    pendingCallDeadline?: number;           // How long unacknowledged DDP calls wait for a reconnect before rejecting in ms (default: 30000)
     sessionTimeout?: number | null;        // Total session duration in ms (default: 15 * 60 * 1000). Set to null to disable.
     idleTimeout?: number;                   // Inactivity timeout in ms (default: 5 * 60 * 1000)
     enableIdleCheck?: boolean;              // Enable idle detection (default: true)
     idleCheckMessage?: string;              // Custom message when idle (default: auto-generated)
+    toolPolicies?: Record<string, ToolPolicy>; // Per-tool policy by tool name
+    defaultToolPolicy?: ToolPolicy;         // Policy for tools not listed in toolPolicies (default: 'auto')
+    toolConfirmationTimeout?: number;       // Time to approve a 'confirm' tool before it is rejected in ms (default: 60000)
+    executionLogs?: 'auto' | 'sse' | 'poll' | 'off'; // REST log delivery; 'auto' uses SSE and falls back to polling, as does an authenticated stream without a ticket (default: 'auto')
+    transports?: ConnectionTransport[];     // Adapters tried in order; the last one that worked is tried first (default: ['ddp', 'rest'])
+    transportProbeTimeout?: number;         // Time each transport gets to connect before falling back in ms (default: 5000)
+    injectContextIntoInstructions?: boolean; // Append user/page context to the session instructions (default: false)
+}
+
+export type PersistenceMode = 'none' | 'session' | 'local' | 'indexeddb';
+
+// Saved data is kept apart per worker, endpoint and (when known) user
+export interface StorageNamespace {
+    workerId: string;
+    endpoint: string;
+    userId?: string;
+}
+
+export interface RetentionPolicy {
+    maxConversations?: number;              // Conversations kept per worker (default: 20)
+    maxAge?: number;                        // Drop conversations not updated for this long in ms (default: 30 days)
+    maxMessagesPerConversation?: number;    // Oldest messages are dropped beyond this (default: 500)
+}
+
+export interface StoredConversation {
+    sessionId: string;
+    title: string;                          // First user message, for history lists
+    messageCount: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Entry of the history view; 'server' conversations were not saved in this browser
+export interface ConversationSummary extends StoredConversation {
+    source: 'local' | 'server';
+}
+
+/**
+ * Backend for saved conversations (one record per namespace + sessionId)
+ * Messages are written one at a time; the same message id overwrites the earlier copy
+ */
+export interface ConversationStore {
+    listConversations(namespace: string): Promise<StoredConversation[]>;  // Most recently updated first
+    loadMessages(namespace: string, sessionId: string): Promise<Message[]>;
+    appendMessage(namespace: string, sessionId: string, message: Message): Promise<void>;
+    trimMessages(namespace: string, sessionId: string, keep: number): Promise<void>;
+    deleteConversation(namespace: string, sessionId: string): Promise<void>;
+}
+
+export type TranscriptFormat = 'markdown' | 'json' | 'text' | 'vtt' | 'html';  // 'vtt' keeps voice turns only
+
+export type ConnectionTransport = 'ddp' | 'rest';
+
+export interface TransportSelection {
+    transport: ConnectionTransport;
+    fallback: boolean;                      // Not the first transport of the configured chain
+    remembered: boolean;                    // Tried first because it worked last time for this endpoint
+    failures: Array<{ transport: ConnectionTransport; error: string }>;
+}
+
+export type ToolPolicy = 'auto' | 'confirm' | 'deny';
+
+export interface ToolConfirmationRequest {
+    callId: string;
+    name: string;
+    arguments: any;     // Parsed arguments (raw string if not valid JSON)
+}
+
+export interface ToolDecision extends ToolConfirmationRequest {
+    approved: boolean;
+    reason: 'user' | 'voice' | 'policy' | 'timeout';
+}
+
+export interface ToolResult {
+    callId: string;
+    name: string;
+    result?: any;
+    error?: string;
+}
+
+export interface RealtimeConfig {
+    provider?: 'openai' | RealtimeProvider;  // Built-in provider name or custom implementation (default: 'openai')
+    baseUrl?: string;                        // Override the provider's realtime endpoint, e.g. a self-hosted gateway
+    transport?: 'auto' | RealtimeTransport;  // 'auto' tries WebRTC and falls back to WebSocket (default: 'auto')
+    connectionTimeout?: number;              // WebRTC connection timeout in ms before giving up (default: 30000)
+    iceServers?: RTCIceServer[];             // STUN/TURN servers, merged with any returned by the server (default: Google STUN)
+    iceTransportPolicy?: RTCIceTransportPolicy; // 'relay' forces TURN for locked-down deployments (default: 'all')
+}
+
+export type RealtimeTransport = 'webrtc' | 'websocket';
+
+export interface SessionOptions {
+    voice?: string;                         // Assistant voice (default: the worker's voice)
+    voices?: string[];                      // Choices in the header voice picker (default: the provider's voices)
+    transcriptionModel?: string;            // Input transcription model (default: 'whisper-1')
+    transcriptionLanguage?: string;         // ISO-639-1 code, improves transcription accuracy and latency
+    temperature?: number;
+    maxResponseTokens?: number | 'inf';
+    turnDetection?: TurnDetectionConfig;    // How the end of the user's turn is detected (default: server VAD)
+}
+
+export type TurnDetectionConfig =
+    | {
+        type: 'server_vad';
+        threshold?: number;                 // Speech probability 0-1 (default: 0.5)
+        prefixPaddingMs?: number;           // Audio kept before speech starts (default: 300)
+        silenceDurationMs?: number;         // Silence that ends the turn; raise it if users get cut off (default: 200)
+    }
+    | {
+        type: 'semantic_vad';               // Ends the turn when the user sounds finished rather than after fixed silence
+        eagerness?: 'low' | 'medium' | 'high' | 'auto';
+    }
+    | {
+        type: 'push_to_talk';               // Mic is live only while the button or shortcut is held
+        shortcut?: string;                  // KeyboardEvent.code of the hold-to-talk key (default: 'Space')
+    };
+
+export interface AudioDevice {
+    deviceId: string;
+    label: string;                          // Empty until microphone permission is granted; a generic name is filled in
+    kind: 'audioinput' | 'audiooutput';
+}
+
+export interface AudioDeviceSelection {
+    input: string | null;                   // null follows the system default
+    output: string | null;
+}
+
+export interface AudioLevels {
+    input: number;                          // Microphone level 0-1
+    output: number;                         // Assistant playback level 0-1
 }
 
 export interface CallbackConfig {
@@ -67,6 +239,7 @@ export interface Message {
     content: string;
     timestamp: Date;
     source?: 'voice' | 'text';
+    interrupted?: boolean;  // Assistant was cut off by the user; content is what was heard
     metadata?: Record<string, any>;
 }
 
@@ -80,11 +253,66 @@ export type ConnectionState =
 export interface ConnectionAdapter {
     connect(): Promise<void>;
     disconnect(): void;
-    sendMessage(message: string): Promise<void>;
+    sendMessage(message: string, sessionId?: string): Promise<void>;  // Replies stream back as 'text:delta', 'response:complete' and 'message'
     on(event: string, handler: Function): void;
     off(event: string, handler: Function): void;
     getState(): ConnectionState;
     logConversationMessage?(data: any): Promise<void>;
+    watchExecutionLogs?(executionId: string): void;     // Stream server-side execution logs as 'message' events
+    unwatchExecutionLogs?(): void;
+    listConversations?(): Promise<StoredConversation[]>;            // Past conversations with this worker, newest first
+    getConversation?(sessionId: string): Promise<Message[]>;
+    logout?(): Promise<void>;                                        // Invalidate the server-side login
+}
+
+export interface ClientTool {
+    name: string;
+    description: string;
+    parameters?: Record<string, any>;                     // JSON Schema for the tool arguments
+    handler: (args: any) => any | Promise<any>;           // Runs in the host page
+    timeout?: number;                                      // Handler timeout in ms (default: 10000)
+}
+
+export interface CollectionChange {
+    type: 'added' | 'changed' | 'removed';
+    collection: string;
+    id: string;
+    fields?: Record<string, any>;
+    cleared?: string[];
+    doc?: any;          // Document after the change (undefined when removed)
+}
+
+export interface SubscriptionHandle {
+    readonly id: string;
+    readonly name: string;
+    ready(): boolean;
+    onReady(callback: () => void): void;
+    // Collection defaults to the subscription name
+    find(collection?: string, selector?: Record<string, any>): any[];
+    findOne(collection: string, id: string): any | undefined;
+    onChange(callback: (change: CollectionChange) => void, collection?: string): () => void;
+    stop(): void;
+}
+
+export interface UserContext {
+    userId?: string;
+    name?: string;
+    email?: string;
+    plan?: string;
+    custom?: Record<string, any>;
+}
+
+export interface PageContext {
+    url?: string;
+    title?: string;
+    referrer?: string;
+    custom?: Record<string, any>;
+}
+
+// Who the visitor is and where they are, sent with the ephemeral key and logged messages
+export interface ConversationContext {
+    user?: UserContext;
+    page?: PageContext;
 }
 
 export interface VoiceSession {
@@ -96,7 +324,24 @@ export interface VoiceSession {
     voice: string;
     instructions: string;
     sessionId: string; // Server-generated session ID for conversation tracking
+    executionId?: string; // Worker execution whose logs are streamed (defaults to sessionId)
     tools?: any[];
+    iceServers?: RTCIceServer[]; // Server-provided TURN credentials for this session
+}
+
+export interface SelectedCandidatePair {
+    local: IceCandidateInfo;
+    remote: IceCandidateInfo;
+    state?: string;
+    currentRoundTripTime?: number;
+}
+
+export interface IceCandidateInfo {
+    candidateType?: string; // 'host' | 'srflx' | 'prflx' | 'relay'
+    protocol?: string;
+    address?: string;
+    port?: number;
+    relayProtocol?: string;
 }
 
 export interface RealtimeEvent {
@@ -111,4 +356,55 @@ export interface AudioConfig {
     echoCancellation?: boolean;
     noiseSuppression?: boolean;
     autoGainControl?: boolean;
+}
+
+/**
+ * Vendor-neutral realtime events produced by a RealtimeProvider.
+ * WebRTCManager only reacts to these, never to raw vendor event names.
+ */
+export type NormalizedRealtimeEvent =
+    | { type: 'session.created' }
+    | { type: 'session.updated' }
+    | { type: 'speech.start' }
+    | { type: 'speech.end' }
+    | { type: 'transcription'; text: string; isFinal: boolean }
+    | { type: 'text.delta'; delta: string }
+    | { type: 'text.done'; text: string }
+    | { type: 'audio.delta'; audio: ArrayBuffer; itemId?: string }
+    | { type: 'audio.done' }
+    | { type: 'audio.transcript.delta'; delta: string; itemId?: string }
+    | { type: 'audio.transcript.done'; transcript: string; itemId?: string }
+    | { type: 'audio.playback.start' }     // Assistant audio started playing (WebRTC output buffer)
+    | { type: 'audio.playback.stop' }
+    | { type: 'response.start' }
+    | { type: 'response.item'; itemId: string }  // Assistant message item of the current response
+    | { type: 'response.done' }
+    | { type: 'tool.call'; callId: string; name: string; arguments: string }
+    | { type: 'error'; message: string; code?: string }
+    | { type: 'ignored' };
+
+/**
+ * Realtime provider abstraction: SDP negotiation, session configuration
+ * and translation between vendor events and NormalizedRealtimeEvent.
+ */
+export interface RealtimeProvider {
+    readonly name: string;
+    readonly dataChannelLabel: string;
+    readonly voices?: string[];             // Voices offered in the header voice picker
+    negotiate(offer: RTCSessionDescriptionInit, session: VoiceSession): Promise<RTCSessionDescriptionInit>;
+    buildSessionUpdate(session: VoiceSession, options?: SessionOptions): RealtimeEvent;
+    buildTextMessage(text: string): RealtimeEvent[];
+    buildToolOutput(callId: string, output: string): RealtimeEvent[];
+    buildStopEvents(transport: RealtimeTransport): RealtimeEvent[];
+    // Push-to-talk support (optional): events sent when the talk button is pressed and released
+    buildPushToTalkEvents?(phase: 'start' | 'end'): RealtimeEvent[];
+    // Barge-in support (optional): stop the response and cut the item at what the user actually heard
+    buildInterruptEvents?(itemId: string, audioEndMs: number, transport: RealtimeTransport): RealtimeEvent[];
+    readonly interruptNotActiveCode?: string; // Error code for cancelling a response that already ended (suppressed)
+    // Continued conversations (optional): replay earlier turns so the model has their context
+    buildHistoryEvents?(messages: Message[]): RealtimeEvent[];
+    normalizeEvent(event: RealtimeEvent): NormalizedRealtimeEvent | null;
+    // WebSocket transport support (optional - without it there is no fallback from WebRTC)
+    openWebSocket?(session: VoiceSession): WebSocket;
+    buildAudioAppend?(audio: ArrayBuffer): RealtimeEvent;
 }
\ No newline at end of file
@@ -1,16 +1,20 @@
-import { UIConfig, Message, ConnectionState } from '../types';
+import { UIConfig, Message, ConnectionState, ToolConfirmationRequest, ToolCallActivity, ToolRenderer, AudioDevice, AudioDeviceSelection, AudioLevels, ConversationSummary, TranscriptFormat } from '../types';
 import { UICallbacks } from './UIManager';
 import { VoiceVisualizer } from './VoiceVisualizer';
 import { CaptionsOverlay } from './CaptionsOverlay';
 import { VoiceControls } from './VoiceControls';
+import { DeviceMenu } from './DeviceMenu';
 import { icons } from './icons';
 
 /**
  * Chat interface component for the voice plugin
  */
 export class ChatInterface {
+    private static readonly SPEAKING_LEVEL = 0.3;  // Mic level (0-1 over a -60 dB floor) that counts as speech
+
     private container: HTMLElement;
     private messagesContainer: HTMLElement;
+    private historyPanel: HTMLElement;
     private inputContainer: HTMLElement;
     private textInput: HTMLInputElement;
     private voiceButton: HTMLButtonElement;
@@ -34,7 +38,15 @@ export class ChatInterface {
     private voiceVisualizer: VoiceVisualizer | null = null;
     private captionsOverlay: CaptionsOverlay | null = null;
     private voiceControls: VoiceControls | null = null;
+    private deviceMenu: DeviceMenu | null = null;
     private ccEnabled: boolean = false;
+    private toolConfirmations: Map<string, HTMLElement> = new Map();
+    private toolActivities: Map<string, HTMLElement> = new Map();
+    private toolRenderers: Map<string, ToolRenderer> = new Map();
+    private voicePicker: HTMLSelectElement | null = null;
+    private conversationBanner: HTMLElement | null = null;  // Shown while a past conversation is open read-only
+    private downloadMenu: HTMLElement | null = null;
+    private pushToTalkShortcut: string | null = null;  // Set in push-to-talk mode
 
     constructor(
         parent: HTMLElement,
@@ -44,19 +56,14 @@ export class ChatInterface {
     ) {
         this.config = config;
         this.callbacks = callbacks;
+        Object.entries(config.toolRenderers || {}).forEach(([name, renderer]) => {
+            this.toolRenderers.set(name, renderer);
+        });
         this.container = this.createContainer(showHeader);
         parent.appendChild(this.container);
 
-        // Check if welcome was previously dismissed
-        try {
-            const dismissed = sessionStorage.getItem('ew-welcome-dismissed');
-            this.welcomeDismissed = dismissed === 'true';
-        } catch (e) {
-            // SessionStorage might not be available
-            this.welcomeDismissed = false;
-        }
-
         this.messagesContainer = this.createMessagesContainer();
+        this.historyPanel = this.createHistoryPanel();
         this.sessionButton = this.createSessionButton();
         this.inputContainer = this.createInputContainer();
         this.textInput = this.createTextInput();
@@ -70,8 +77,13 @@ export class ChatInterface {
     }
 
     private initializeVoiceComponents(): void {
-        // Create visualizer (shown when voice is active in voice mode)
-        this.voiceVisualizer = new VoiceVisualizer(this.container);
+        // Create visualizer (shown above the input while voice is active)
+        const theme = this.getTheme();
+        this.voiceVisualizer = new VoiceVisualizer(
+            this.container,
+            { user: theme.userMessageBg, assistant: theme.text },
+            this.inputContainer
+        );
         this.voiceVisualizer.hide();
 
         // Create captions overlay (shown when CC is enabled and transcription is active)
@@ -80,18 +92,6 @@ export class ChatInterface {
 
         // Create voice controls (shown when voice mode is active)
         this.voiceControls = new VoiceControls(this.container, {
-            onMicClick: () => {
-                // Toggle speech detection (mute/unmute)
-                this.isSpeechDetected = !this.isSpeechDetected;
-                if (this.voiceControls) {
-                    this.voiceControls.setListening(this.isSpeechDetected);
-                }
-                if (this.isSpeechDetected) {
-                    this.voiceVisualizer?.play();
-                } else {
-                    this.voiceVisualizer?.pause();
-                }
-            },
             onCCClick: () => {
                 // Toggle captions
                 this.ccEnabled = !this.ccEnabled;
@@ -104,9 +104,25 @@ export class ChatInterface {
             onStopClick: () => {
                 // Stop voice session
                 this.callbacks.onStopVoice();
+            },
+            onTalkStart: () => {
+                this.setSpeechDetected(true);
+                this.voiceVisualizer?.play();
+                this.callbacks.onTalkStart();
+            },
+            onTalkEnd: () => {
+                this.setSpeechDetected(false);
+                this.voiceVisualizer?.pause();
+                this.callbacks.onTalkEnd();
             }
         });
         this.voiceControls.hide();
+
+        // Microphone and speaker picker next to the mic button (the voice controls only show for push-to-talk)
+        this.deviceMenu = new DeviceMenu(this.inputContainer, {
+            onInputDeviceChange: (deviceId: string) => this.callbacks.onInputDeviceChange(deviceId),
+            onOutputDeviceChange: (deviceId: string) => this.callbacks.onOutputDeviceChange(deviceId)
+        }, theme, this.voiceButton);
     }
 
     private createContainer(showHeader: boolean): HTMLElement {
@@ -169,6 +185,7 @@ export class ChatInterface {
             display: flex;
             justify-content: space-between;
             align-items: center;
+            position: relative;
         `;
         
         // Everworker logo
@@ -200,12 +217,125 @@ export class ChatInterface {
         closeButton.innerHTML = icons.x;
         closeButton.addEventListener('click', () => this.callbacks.onToggleExpanded(false));
 
+        const historyButton = document.createElement('button');
+        historyButton.className = 'ew-history-button';
+        historyButton.setAttribute('aria-label', 'Conversation history');
+        historyButton.title = 'Conversation history';
+        historyButton.style.cssText = closeButton.style.cssText;
+        historyButton.innerHTML = icons.history.replace(/width="24" height="24"/, 'width="20" height="20"');
+        historyButton.addEventListener('click', () => this.toggleHistory());
+
+        const downloadButton = document.createElement('button');
+        downloadButton.className = 'ew-download-button';
+        downloadButton.setAttribute('aria-label', 'Download transcript');
+        downloadButton.setAttribute('aria-haspopup', 'menu');
+        downloadButton.title = 'Download transcript';
+        downloadButton.style.cssText = closeButton.style.cssText;
+        downloadButton.innerHTML = icons.download.replace(/width="24" height="24"/, 'width="20" height="20"');
+        downloadButton.addEventListener('click', () => this.toggleDownloadMenu());
+        this.downloadMenu = this.createDownloadMenu();
+
+        const actions = document.createElement('div');
+        actions.className = 'ew-chat-header-actions';
+        actions.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 8px;
+        `;
+
+        this.voicePicker = this.createVoicePicker();
+        actions.appendChild(this.voicePicker);
+        actions.appendChild(historyButton);
+        actions.appendChild(downloadButton);
+        actions.appendChild(closeButton);
+
         header.appendChild(logo);
-        header.appendChild(closeButton);
+        header.appendChild(actions);
+        header.appendChild(this.downloadMenu);
         
         return header;
     }
 
+    private createDownloadMenu(): HTMLElement {
+        const menu = document.createElement('div');
+        const theme = this.getTheme();
+        const formats: [TranscriptFormat, string][] = [
+            ['markdown', 'Markdown'],
+            ['text', 'Plain text'],
+            ['json', 'JSON'],
+            ['vtt', 'Subtitles (WebVTT)'],
+            ['html', 'Printable page (PDF)']
+        ];
+
+        menu.className = 'ew-download-menu';
+        menu.setAttribute('role', 'menu');
+        menu.style.cssText = `
+            position: absolute;
+            top: 100%;
+            right: 16px;
+            z-index: 1;
+            min-width: 180px;
+            padding: 6px;
+            border: 1px solid ${theme.border};
+            border-radius: 8px;
+            background: ${theme.background};
+            box-shadow: 0 4px 16px rgba(0, 0, 0, 0.15);
+            display: none;
+            flex-direction: column;
+        `;
+
+        formats.forEach(([format, label]) => {
+            const item = document.createElement('button');
+            item.setAttribute('role', 'menuitem');
+            item.style.cssText = `
+                padding: 8px 10px;
+                border: none;
+                border-radius: 6px;
+                background: none;
+                color: ${theme.text};
+                font-size: 13px;
+                text-align: left;
+                cursor: pointer;
+            `;
+            item.textContent = label;
+            item.addEventListener('mouseenter', () => item.style.background = theme.inputBg);
+            item.addEventListener('mouseleave', () => item.style.background = 'none');
+            item.addEventListener('click', () => {
+                this.toggleDownloadMenu(false);
+                this.callbacks.onDownloadTranscript(format);
+            });
+            menu.appendChild(item);
+        });
+
+        return menu;
+    }
+
+    private toggleDownloadMenu(open: boolean = this.downloadMenu?.style.display === 'none'): void {
+        if (!this.downloadMenu) return;
+        this.downloadMenu.style.display = open ? 'flex' : 'none';
+    }
+
+    private createVoicePicker(): HTMLSelectElement {
+        const select = document.createElement('select');
+        const theme = this.getTheme();
+
+        select.className = 'ew-voice-picker';
+        select.setAttribute('aria-label', 'Assistant voice');
+        select.style.cssText = `
+            display: none;
+            padding: 4px 8px;
+            border: 1px solid ${theme.border};
+            border-radius: 6px;
+            background: ${theme.inputBg};
+            color: ${theme.text};
+            font-size: 12px;
+            cursor: pointer;
+        `;
+        select.addEventListener('change', () => this.callbacks.onVoiceChange(select.value));
+
+        return select;
+    }
+
     private createMessagesContainer(): HTMLElement {
         const container = document.createElement('div');
         const theme = this.getTheme();
@@ -224,6 +354,23 @@ export class ChatInterface {
         return container;
     }
 
+    private createHistoryPanel(): HTMLElement {
+        const panel = document.createElement('div');
+
+        panel.className = 'ew-history-panel';
+        panel.style.cssText = `
+            flex: 1;
+            overflow-y: auto;
+            padding: 12px;
+            display: none;
+            flex-direction: column;
+            gap: 8px;
+        `;
+
+        this.container.appendChild(panel);
+        return panel;
+    }
+
     private createSessionButton(): HTMLButtonElement {
         const container = document.createElement('div');
         const button = document.createElement('button');
@@ -498,25 +645,90 @@ export class ChatInterface {
         }
     }
 
+    /**
+     * Fill the header voice picker; hidden when there is nothing to choose from
+     */
+    public setVoiceOptions(voices: string[], current?: string): void {
+        if (!this.voicePicker) return;
+
+        // Keep a configured voice selectable even if the list doesn't offer it
+        const choices = current && !voices.includes(current) ? [...voices, current] : voices;
+
+        this.voicePicker.innerHTML = '';
+        ['', ...choices].forEach(voice => {
+            const option = document.createElement('option');
+            option.value = voice;
+            option.textContent = voice ? voice.charAt(0).toUpperCase() + voice.slice(1) : 'Default voice';
+            this.voicePicker!.appendChild(option);
+        });
+
+        this.voicePicker.value = current || '';
+        this.voicePicker.style.display = voices.length ? 'block' : 'none';
+    }
+
+    public setAudioLevels(levels: AudioLevels): void {
+        this.voiceVisualizer?.setLevels(levels);
+        // The mic glows while the microphone actually picks up speech
+        this.voiceControls?.setListening(levels.input >= ChatInterface.SPEAKING_LEVEL);
+    }
+
+    public setAudioDevices(devices: AudioDevice[], selection: AudioDeviceSelection): void {
+        this.deviceMenu?.setDevices(devices, selection);
+    }
+
+    /**
+     * Hide the mic button for text-only placements
+     */
+    public setVoiceEnabled(enabled: boolean): void {
+        this.voiceButton.style.display = enabled ? 'flex' : 'none';
+        this.deviceMenu?.setEnabled(enabled);
+    }
+
+    /**
+     * Push-to-talk shows the hold-to-talk controls while voice is active; null returns to VAD mode
+     */
+    public setPushToTalk(shortcut: string | null): void {
+        this.pushToTalkShortcut = shortcut;
+
+        if (this.isVoiceActive) {
+            this.setVoiceActive(true);
+        }
+    }
+
     public setVoiceActive(active: boolean): void {
         console.log('🎙️ ChatInterface: Voice active:', active);
         this.isVoiceActive = active;
 
         if (active) {
             // Keep text input visible - user can use both text and voice
-            // Just hide the voice controls bar and visualizer (we don't need them)
-            this.voiceVisualizer?.hide();
-            this.voiceControls?.hide();
+            // The visualizer shows live mic/assistant levels above the input
+            // (hollow bars while the push-to-talk mic is closed)
+            this.voiceVisualizer?.show();
+            if (this.pushToTalkShortcut) {
+                this.voiceVisualizer?.pause();
+            } else {
+                this.voiceVisualizer?.play();
+            }
+
+            // Push-to-talk needs the hold button (and its keyboard shortcut)
+            if (this.pushToTalkShortcut) {
+                this.voiceControls?.setPushToTalk(true, this.pushToTalkShortcut);
+                this.voiceControls?.show();
+            } else {
+                this.voiceControls?.setPushToTalk(false);
+                this.voiceControls?.hide();
+            }
 
             // Update voice button in input to show it's active (red)
             this.voiceButton.style.background = '#ff0d40';
             this.voiceButton.style.color = 'white';
             this.voiceButton.innerHTML = icons.square;
 
-            this.setSpeechDetected(true);
+            this.setSpeechDetected(!this.pushToTalkShortcut);
         } else {
             // Voice inactive - reset button
             this.voiceVisualizer?.hide();
+            this.voiceControls?.setPushToTalk(false);
             this.voiceControls?.hide();
             this.captionsOverlay?.hide();
 
@@ -541,6 +753,10 @@ export class ChatInterface {
     }
 
     private createMessageElement(message: Message): HTMLElement {
+        if (message.type === 'system') {
+            return this.createSystemMessageElement(message);
+        }
+
         const element = document.createElement('div');
         const theme = this.getTheme();
         const isUser = message.type === 'user';
@@ -580,10 +796,588 @@ export class ChatInterface {
         }
         
         element.appendChild(bubble);
+
+        if (message.interrupted) {
+            const note = document.createElement('div');
+            note.className = 'ew-message-interrupted';
+            note.style.cssText = `
+                margin-top: 4px;
+                padding: 0 6px;
+                color: ${theme.textSecondary};
+                font-size: 11px;
+                font-style: italic;
+            `;
+            note.textContent = 'Interrupted';
+            element.appendChild(note);
+        }
         
         return element;
     }
 
+    private createSystemMessageElement(message: Message): HTMLElement {
+        const element = document.createElement('div');
+        const theme = this.getTheme();
+
+        element.className = 'ew-message ew-message-system';
+        element.style.cssText = `
+            align-self: center;
+            max-width: 90%;
+            color: ${theme.textSecondary};
+            font-size: 12px;
+            line-height: 1.4;
+            text-align: center;
+            word-wrap: break-word;
+            animation: ew-fade-in 0.3s ease;
+        `;
+        element.textContent = message.content;
+
+        return element;
+    }
+
+    /**
+     * Show an approve/reject card for a tool call that needs user confirmation
+     */
+    public showToolConfirmation(request: ToolConfirmationRequest): void {
+        const theme = this.getTheme();
+        const primary = this.config.primaryColor || '#ff0d40';
+
+        const card = document.createElement('div');
+        card.className = 'ew-tool-confirm';
+        card.style.cssText = `
+            align-self: stretch;
+            padding: 12px 14px;
+            border: 1px solid ${theme.border};
+            border-left: 3px solid ${primary};
+            border-radius: 10px;
+            background: ${theme.messageBg};
+            color: ${theme.text};
+            font-size: 13px;
+            line-height: 1.4;
+            animation: ew-fade-in 0.3s ease;
+        `;
+
+        const title = document.createElement('div');
+        title.style.cssText = `font-weight: 600; margin-bottom: 8px;`;
+        title.textContent = `Allow the assistant to run "${request.name}"?`;
+        card.appendChild(title);
+
+        const args = document.createElement('dl');
+        args.className = 'ew-tool-confirm-args';
+        args.style.cssText = `
+            margin: 0 0 10px;
+            display: grid;
+            grid-template-columns: auto 1fr;
+            gap: 2px 10px;
+            font-size: 12px;
+        `;
+        this.getArgumentEntries(request.arguments).forEach(([key, value]) => {
+            const dt = document.createElement('dt');
+            dt.style.cssText = `color: ${theme.textSecondary};`;
+            dt.textContent = key;
+            const dd = document.createElement('dd');
+            dd.style.cssText = `margin: 0; word-break: break-word;`;
+            dd.textContent = value;
+            args.appendChild(dt);
+            args.appendChild(dd);
+        });
+        card.appendChild(args);
+
+        const actions = document.createElement('div');
+        actions.className = 'ew-tool-confirm-actions';
+        actions.style.cssText = `display: flex; gap: 8px; align-items: center;`;
+
+        const approveButton = document.createElement('button');
+        approveButton.textContent = 'Approve';
+        approveButton.style.cssText = `
+            padding: 6px 16px;
+            border: none;
+            border-radius: 16px;
+            background: ${primary};
+            color: white;
+            font-size: 13px;
+            font-weight: 600;
+            cursor: pointer;
+        `;
+        approveButton.addEventListener('click', () => this.callbacks.onToolDecision(request.callId, true));
+
+        const rejectButton = document.createElement('button');
+        rejectButton.textContent = 'Reject';
+        rejectButton.style.cssText = `
+            padding: 6px 16px;
+            border: 1px solid ${theme.border};
+            border-radius: 16px;
+            background: ${theme.background};
+            color: ${theme.text};
+            font-size: 13px;
+            cursor: pointer;
+        `;
+        rejectButton.addEventListener('click', () => this.callbacks.onToolDecision(request.callId, false));
+
+        const hint = document.createElement('span');
+        hint.style.cssText = `color: ${theme.textSecondary}; font-size: 11px; margin-left: auto;`;
+        hint.textContent = 'or say "yes" / "no"';
+
+        actions.appendChild(approveButton);
+        actions.appendChild(rejectButton);
+        actions.appendChild(hint);
+        card.appendChild(actions);
+
+        this.toolConfirmations.set(request.callId, card);
+        this.messagesContainer.appendChild(card);
+        this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
+    }
+
+    /**
+     * Lock a confirmation card once the decision is made (click, voice or timeout)
+     */
+    public resolveToolConfirmation(callId: string, approved: boolean): void {
+        const card = this.toolConfirmations.get(callId);
+        if (!card) return;
+
+        this.toolConfirmations.delete(callId);
+
+        const actions = card.querySelector('.ew-tool-confirm-actions') as HTMLElement;
+        if (actions) {
+            const theme = this.getTheme();
+            actions.innerHTML = '';
+            const outcome = document.createElement('span');
+            outcome.style.cssText = `color: ${theme.textSecondary}; font-size: 12px; font-weight: 600;`;
+            outcome.textContent = approved ? '✓ Approved' : '✕ Rejected';
+            actions.appendChild(outcome);
+        }
+        card.style.opacity = '0.7';
+    }
+
+    public setToolRenderer(name: string, renderer: ToolRenderer | null): void {
+        if (renderer) {
+            this.toolRenderers.set(name, renderer);
+        } else {
+            this.toolRenderers.delete(name);
+        }
+    }
+
+    /**
+     * Render or update the collapsible card for a tool call (driven by tool:start / tool:end)
+     */
+    public showToolActivity(activity: ToolCallActivity): void {
+        const theme = this.getTheme();
+        let card = this.toolActivities.get(activity.callId);
+        const isNew = !card;
+
+        if (!card) {
+            card = document.createElement('div');
+            card.className = 'ew-tool-activity';
+            card.style.cssText = `
+                align-self: stretch;
+                border: 1px solid ${theme.border};
+                border-radius: 10px;
+                background: ${theme.background};
+                color: ${theme.text};
+                font-size: 13px;
+                overflow: hidden;
+                animation: ew-fade-in 0.3s ease;
+            `;
+            card.dataset.startedAt = String(activity.startedAt.getTime());
+            this.toolActivities.set(activity.callId, card);
+        }
+
+        card.dataset.status = activity.status;
+        card.innerHTML = '';
+
+        const header = document.createElement('div');
+        header.className = 'ew-tool-activity-header';
+        header.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 8px 12px;
+            cursor: pointer;
+            user-select: none;
+        `;
+
+        const status = document.createElement('span');
+        status.style.cssText = `display: flex; width: 16px; height: 16px; flex-shrink: 0;`;
+        if (activity.status === 'running') {
+            status.innerHTML = icons.spinner.replace(/width="24" height="24"/, 'width="16" height="16"');
+            status.style.color = theme.textSecondary;
+        } else {
+            status.textContent = activity.status === 'success' ? '✓' : '✕';
+            status.style.color = activity.status === 'success' ? '#16a34a' : '#f44336';
+            status.style.fontWeight = '700';
+        }
+
+        const name = document.createElement('span');
+        name.style.cssText = `flex: 1; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;`;
+        name.textContent = activity.name;
+
+        const meta = document.createElement('span');
+        meta.style.cssText = `color: ${theme.textSecondary}; font-size: 11px;`;
+        meta.textContent = activity.status === 'running'
+            ? 'Running…'
+            : this.formatDuration(activity.duration || 0);
+
+        const chevron = document.createElement('span');
+        chevron.style.cssText = `color: ${theme.textSecondary}; font-size: 10px; transition: transform 0.2s;`;
+        chevron.textContent = '▾';
+
+        header.appendChild(status);
+        header.appendChild(name);
+        header.appendChild(meta);
+        header.appendChild(chevron);
+
+        const details = document.createElement('div');
+        details.className = 'ew-tool-activity-details';
+        details.style.cssText = `
+            padding: 8px 12px 12px;
+            border-top: 1px solid ${theme.border};
+            display: none;
+            flex-direction: column;
+            gap: 8px;
+        `;
+
+        details.appendChild(this.createToolSection('Arguments', this.stringifyForDisplay(activity.arguments)));
+
+        const custom = activity.status === 'success' ? this.renderCustomToolResult(activity) : null;
+        if (custom) {
+            details.appendChild(custom);
+        } else if (activity.status === 'success') {
+            details.appendChild(this.createToolSection('Result', this.stringifyForDisplay(activity.result)));
+        } else if (activity.status === 'error') {
+            details.appendChild(this.createToolSection('Error', activity.error || 'Tool call failed'));
+        }
+
+        const setExpanded = (expanded: boolean) => {
+            details.style.display = expanded ? 'flex' : 'none';
+            chevron.style.transform = expanded ? 'rotate(180deg)' : 'rotate(0deg)';
+        };
+        // Custom renderers produce rich results worth showing right away
+        setExpanded(!!custom);
+        header.addEventListener('click', () => setExpanded(details.style.display === 'none'));
+
+        card.appendChild(header);
+        card.appendChild(details);
+
+        // Calls of the live session wait out a past conversation opened meanwhile (see setMessages)
+        if (isNew && !this.conversationBanner) {
+            this.messagesContainer.appendChild(card);
+        }
+        this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
+    }
+
+    private renderCustomToolResult(activity: ToolCallActivity): HTMLElement | null {
+        const renderer = this.toolRenderers.get(activity.name);
+        if (!renderer) return null;
+
+        try {
+            const rendered = renderer(activity);
+            if (!rendered) return null;
+
+            if (typeof rendered === 'string') {
+                const wrapper = document.createElement('div');
+                wrapper.className = 'ew-tool-activity-custom';
+                wrapper.innerHTML = rendered;
+                return wrapper;
+            }
+            return rendered;
+        } catch (error) {
+            console.error(`❌ ChatInterface: Tool renderer for "${activity.name}" failed:`, error);
+            return null;
+        }
+    }
+
+    private createToolSection(label: string, content: string): HTMLElement {
+        const theme = this.getTheme();
+        const section = document.createElement('div');
+
+        const title = document.createElement('div');
+        title.style.cssText = `color: ${theme.textSecondary}; font-size: 11px; margin-bottom: 2px;`;
+        title.textContent = label;
+
+        const body = document.createElement('pre');
+        body.style.cssText = `
+            margin: 0;
+            padding: 6px 8px;
+            background: ${theme.inputBg};
+            border-radius: 6px;
+            font-size: 11px;
+            white-space: pre-wrap;
+            word-break: break-word;
+            max-height: 160px;
+            overflow-y: auto;
+        `;
+        body.textContent = content;
+
+        section.appendChild(title);
+        section.appendChild(body);
+        return section;
+    }
+
+    private stringifyForDisplay(value: any): string {
+        if (typeof value === 'string') return value;
+        try {
+            return JSON.stringify(value, null, 2) ?? '';
+        } catch (error) {
+            return String(value);
+        }
+    }
+
+    private formatDuration(ms: number): string {
+        return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+    }
+
+    private getArgumentEntries(args: any): [string, string][] {
+        if (args && typeof args === 'object' && !Array.isArray(args)) {
+            return Object.entries(args).map(([key, value]) => [
+                key,
+                typeof value === 'string' ? value : JSON.stringify(value)
+            ]);
+        }
+        return [['arguments', typeof args === 'string' ? args : JSON.stringify(args)]];
+    }
+
+    private toggleHistory(): void {
+        if (this.historyPanel.style.display === 'flex') {
+            this.hideHistory();
+            return;
+        }
+
+        this.historyPanel.innerHTML = '';
+        this.historyPanel.appendChild(this.createHistoryNotice('Loading conversations...'));
+        this.historyPanel.style.display = 'flex';
+        this.messagesContainer.style.display = 'none';
+        this.callbacks.onShowHistory();
+    }
+
+    private hideHistory(): void {
+        this.historyPanel.style.display = 'none';
+        this.messagesContainer.style.display = 'flex';
+    }
+
+    /**
+     * Fill the history view (newest first); the current conversation is listed without actions
+     */
+    public setConversationHistory(conversations: ConversationSummary[], currentId: string | null): void {
+        this.historyPanel.innerHTML = '';
+
+        if (!conversations.length) {
+            this.historyPanel.appendChild(this.createHistoryNotice('No past conversations yet'));
+            return;
+        }
+
+        conversations.forEach(conversation => {
+            this.historyPanel.appendChild(this.createHistoryEntry(conversation, conversation.sessionId === currentId));
+        });
+    }
+
+    private createHistoryNotice(text: string): HTMLElement {
+        const notice = document.createElement('div');
+        const theme = this.getTheme();
+
+        notice.className = 'ew-history-notice';
+        notice.style.cssText = `
+            padding: 24px 12px;
+            color: ${theme.textSecondary};
+            font-size: 13px;
+            text-align: center;
+        `;
+        notice.textContent = text;
+
+        return notice;
+    }
+
+    private createHistoryEntry(conversation: ConversationSummary, isCurrent: boolean): HTMLElement {
+        const entry = document.createElement('div');
+        const theme = this.getTheme();
+
+        entry.className = 'ew-history-entry';
+        entry.style.cssText = `
+            padding: 10px 12px;
+            border: 1px solid ${theme.border};
+            border-radius: 8px;
+            background: ${theme.messageBg};
+            display: flex;
+            flex-direction: column;
+            gap: 4px;
+        `;
+
+        const title = document.createElement('div');
+        title.className = 'ew-history-title';
+        title.style.cssText = `
+            color: ${theme.text};
+            font-size: 14px;
+            font-weight: 600;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        `;
+        title.textContent = conversation.title || 'Untitled conversation';
+        title.title = conversation.title;
+
+        const details = [
+            this.formatConversationDate(conversation.createdAt),
+            this.formatConversationLength(conversation.updatedAt.getTime() - conversation.createdAt.getTime()),
+            conversation.messageCount ? `${conversation.messageCount} messages` : '',
+            isCurrent ? 'Current' : conversation.source === 'server' ? 'Saved on server' : ''
+        ];
+        const meta = document.createElement('div');
+        meta.className = 'ew-history-meta';
+        meta.style.cssText = `
+            color: ${theme.textSecondary};
+            font-size: 12px;
+        `;
+        meta.textContent = details.filter(Boolean).join(' · ');
+
+        entry.appendChild(title);
+        entry.appendChild(meta);
+
+        if (!isCurrent) {
+            const actions = document.createElement('div');
+            actions.style.cssText = `
+                display: flex;
+                align-items: center;
+                gap: 8px;
+                margin-top: 4px;
+            `;
+
+            actions.appendChild(this.createHistoryAction('View', false, () => {
+                this.callbacks.onOpenConversation(conversation.sessionId, 'view');
+            }));
+            actions.appendChild(this.createHistoryAction('Continue', true, () => {
+                this.callbacks.onOpenConversation(conversation.sessionId, 'continue');
+            }));
+
+            // Only the copy in this browser can be deleted from here
+            if (conversation.source === 'local') {
+                actions.appendChild(this.createHistoryDeleteButton(conversation.sessionId));
+            }
+            entry.appendChild(actions);
+        }
+
+        return entry;
+    }
+
+    private createHistoryAction(label: string, primary: boolean, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        const theme = this.getTheme();
+        const primaryColor = this.config.primaryColor || '#ff0d40';
+
+        button.style.cssText = `
+            padding: 4px 12px;
+            border: 1px solid ${primary ? primaryColor : theme.border};
+            border-radius: 12px;
+            background: ${primary ? primaryColor : theme.background};
+            color: ${primary ? 'white' : theme.text};
+            font-size: 12px;
+            cursor: pointer;
+        `;
+        button.textContent = label;
+        button.addEventListener('click', onClick);
+
+        return button;
+    }
+
+    private createHistoryDeleteButton(sessionId: string): HTMLButtonElement {
+        const button = document.createElement('button');
+        const theme = this.getTheme();
+        const icon = icons.trash.replace(/width="24" height="24"/, 'width="16" height="16"');
+        let confirmTimer: any = null;
+
+        button.setAttribute('aria-label', 'Delete conversation');
+        button.style.cssText = `
+            margin-left: auto;
+            padding: 4px 8px;
+            border: none;
+            border-radius: 12px;
+            background: none;
+            color: ${theme.textSecondary};
+            font-size: 12px;
+            cursor: pointer;
+            display: flex;
+            align-items: center;
+        `;
+        button.innerHTML = icon;
+
+        // First click asks, a second one within 3s deletes
+        button.addEventListener('click', () => {
+            if (confirmTimer) {
+                clearTimeout(confirmTimer);
+                this.callbacks.onDeleteConversation(sessionId);
+                return;
+            }
+
+            button.textContent = 'Delete?';
+            button.style.color = '#f44336';
+            confirmTimer = setTimeout(() => {
+                confirmTimer = null;
+                button.innerHTML = icon;
+                button.style.color = theme.textSecondary;
+            }, 3000);
+        });
+
+        return button;
+    }
+
+    private formatConversationDate(date: Date): string {
+        return date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+    }
+
+    private formatConversationLength(ms: number): string {
+        const minutes = Math.round(ms / 60000);
+        if (minutes < 1) return 'under a minute';
+        if (minutes < 60) return `${minutes} min`;
+        return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+    }
+
+    /**
+     * Show a past conversation read-only; live messages stay with the plugin until closeConversation()
+     */
+    public showConversation(conversation: ConversationSummary, messages: Message[]): void {
+        const theme = this.getTheme();
+
+        this.hideHistory();
+        this.conversationBanner?.remove();
+
+        const banner = document.createElement('div');
+        banner.className = 'ew-conversation-banner';
+        banner.style.cssText = `
+            padding: 8px 16px;
+            border-bottom: 1px solid ${theme.border};
+            background: ${theme.inputBg};
+            color: ${theme.textSecondary};
+            font-size: 12px;
+            display: flex;
+            align-items: center;
+            gap: 8px;
+        `;
+
+        const label = document.createElement('span');
+        label.style.cssText = `
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        `;
+        label.textContent = `Past conversation · ${this.formatConversationDate(conversation.createdAt)}`;
+
+        banner.appendChild(label);
+        banner.appendChild(this.createHistoryAction('Continue', true, () => {
+            this.callbacks.onOpenConversation(conversation.sessionId, 'continue');
+        }));
+        banner.appendChild(this.createHistoryAction('Back', false, () => this.callbacks.onCloseConversation()));
+
+        this.container.insertBefore(banner, this.messagesContainer);
+        this.conversationBanner = banner;
+        this.inputContainer.style.display = 'none';
+        this.setMessages(messages);
+    }
+
+    public closeConversation(): void {
+        this.hideHistory();
+        this.conversationBanner?.remove();
+        this.conversationBanner = null;
+        this.inputContainer.style.display = 'flex';
+    }
+
     private createWelcomeMessage(): HTMLElement {
         const element = document.createElement('div');
         const theme = this.getTheme();
@@ -660,12 +1454,17 @@ export class ChatInterface {
         }
 
         this.welcomeDismissed = true;
+        this.callbacks.onWelcomeDismissed();
+    }
 
-        // Persist dismissal in sessionStorage
-        try {
-            sessionStorage.setItem('ew-welcome-dismissed', 'true');
-        } catch (e) {
-            // SessionStorage might not be available
+    /**
+     * Restore a dismissal from earlier in this tab (the plugin keeps it per worker)
+     */
+    public setWelcomeDismissed(dismissed: boolean): void {
+        this.welcomeDismissed = dismissed;
+        if (dismissed && this.welcomeElement) {
+            this.welcomeElement.remove();
+            this.welcomeElement = null;
         }
     }
 
@@ -683,16 +1482,33 @@ export class ChatInterface {
     public setMessages(messages: Message[]): void {
         this.messages = messages;
         this.messagesContainer.innerHTML = '';
-        messages.forEach(msg => this.addMessage(msg));
+
+        // Tool cards of the live transcript go back between the messages they ran between
+        const activities = this.conversationBanner ? [] : Array.from(this.toolActivities.values());
+        messages.forEach(msg => {
+            while (activities.length && Number(activities[0].dataset.startedAt) < msg.timestamp.getTime()) {
+                this.messagesContainer.appendChild(activities.shift()!);
+            }
+            this.addMessage(msg);
+        });
+        activities.forEach(card => this.messagesContainer.appendChild(card));
+        this.restorePendingConfirmations();
         this.showWelcomeIfNeeded();
     }
 
     public clearMessages(): void {
         this.messages = [];
         this.messagesContainer.innerHTML = '';
+        this.toolActivities.clear();
+        this.restorePendingConfirmations();
         this.showWelcomeIfNeeded();
     }
 
+    // Calls still waiting for an answer keep their Approve/Reject card when the list is rebuilt
+    private restorePendingConfirmations(): void {
+        this.toolConfirmations.forEach(card => this.messagesContainer.appendChild(card));
+    }
+
     public showTranscription(text: string, isFinal: boolean = false): void {
         console.log('📝 ChatInterface: Showing transcription:', text, 'Final:', isFinal);
         this.currentTranscription = text;
@@ -873,6 +1689,7 @@ export class ChatInterface {
         this.voiceVisualizer?.destroy();
         this.captionsOverlay?.destroy();
         this.voiceControls?.destroy();
+        this.deviceMenu?.destroy();
 
         this.container.remove();
     }
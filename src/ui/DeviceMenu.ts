@@ -0,0 +1,175 @@
+import { icons } from './icons';
+import { AudioDevice, AudioDeviceSelection } from '../types';
+
+/**
+ * Device Menu Component
+ * Input bar button with a popover to pick the microphone and speaker, whatever the turn detection mode
+ */
+export class DeviceMenu {
+    private container: HTMLElement;
+    private button: HTMLButtonElement;
+    private menu: HTMLElement;
+    private inputSelect: HTMLSelectElement;
+    private outputSelect: HTMLSelectElement;
+    private colors: { text: string; background: string; border: string; inputBg: string };
+    private hasDevices: boolean = false;
+    private enabled: boolean = true;
+
+    constructor(
+        parent: HTMLElement,
+        callbacks: {
+            onInputDeviceChange: (deviceId: string) => void;   // '' selects the system default
+            onOutputDeviceChange: (deviceId: string) => void;
+        },
+        colors: { text: string; background: string; border: string; inputBg: string },
+        before: Node | null = null
+    ) {
+        this.colors = colors;
+        this.container = this.createContainer();
+        this.button = this.createButton();
+        this.inputSelect = this.createSelect('Microphone', callbacks.onInputDeviceChange);
+        this.outputSelect = this.createSelect('Speaker', callbacks.onOutputDeviceChange);
+        this.menu = this.createMenu();
+        parent.insertBefore(this.container, before);
+    }
+
+    private createContainer(): HTMLElement {
+        const container = document.createElement('div');
+        container.className = 'ew-device-menu-container';
+        container.style.cssText = `
+            position: relative;
+            flex-shrink: 0;
+            display: none;
+        `;
+        return container;
+    }
+
+    private createButton(): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'ew-device-button';
+        button.setAttribute('aria-label', 'Audio devices');
+        button.setAttribute('aria-haspopup', 'true');
+        button.setAttribute('aria-expanded', 'false');
+        button.title = 'Audio devices';
+        button.style.cssText = `
+            width: 40px;
+            height: 40px;
+            border-radius: 50%;
+            border: none;
+            background: ${this.colors.inputBg};
+            color: ${this.colors.text};
+            cursor: pointer;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            transition: all 0.2s;
+        `;
+
+        button.innerHTML = icons.sliders.replace(/width="24" height="24"/, 'width="20" height="20"');
+        button.addEventListener('click', () => this.toggle());
+        this.container.appendChild(button);
+
+        return button;
+    }
+
+    private createSelect(label: string, onChange: (deviceId: string) => void): HTMLSelectElement {
+        const select = document.createElement('select');
+        select.setAttribute('aria-label', label);
+        select.style.cssText = `
+            width: 100%;
+            padding: 6px 8px;
+            border: 1px solid ${this.colors.border};
+            border-radius: 8px;
+            background: ${this.colors.inputBg};
+            color: ${this.colors.text};
+            font-size: 13px;
+        `;
+        select.addEventListener('change', () => onChange(select.value));
+        return select;
+    }
+
+    private createMenu(): HTMLElement {
+        const menu = document.createElement('div');
+        menu.className = 'ew-device-menu';
+        menu.style.cssText = `
+            position: absolute;
+            bottom: 48px;
+            right: 0;
+            z-index: 11;
+            width: 240px;
+            padding: 12px;
+            border: 1px solid ${this.colors.border};
+            border-radius: 12px;
+            background: ${this.colors.background};
+            box-shadow: 0 4px 16px rgba(0, 0, 0, 0.15);
+            display: none;
+            flex-direction: column;
+            gap: 6px;
+            font-size: 12px;
+            color: ${this.colors.text};
+        `;
+
+        const addField = (text: string, select: HTMLSelectElement) => {
+            const label = document.createElement('label');
+            label.textContent = text;
+            label.style.cssText = 'display: flex; flex-direction: column; gap: 4px;';
+            label.appendChild(select);
+            menu.appendChild(label);
+        };
+        addField('Microphone', this.inputSelect);
+        addField('Speaker', this.outputSelect);
+
+        this.container.appendChild(menu);
+        return menu;
+    }
+
+    public toggle(open: boolean = this.menu.style.display === 'none'): void {
+        this.menu.style.display = open ? 'flex' : 'none';
+        this.button.setAttribute('aria-expanded', String(open));
+    }
+
+    /**
+     * Fill the menu; the speaker list is hidden when the browser can't pick outputs
+     */
+    public setDevices(devices: AudioDevice[], selection: AudioDeviceSelection): void {
+        const fill = (select: HTMLSelectElement, kind: AudioDevice['kind'], current: string | null) => {
+            select.innerHTML = '';
+            const choices = devices.filter(device => device.kind === kind && device.deviceId !== 'default');
+            [{ deviceId: '', label: 'System default' }, ...choices].forEach(device => {
+                const option = document.createElement('option');
+                option.value = device.deviceId;
+                option.textContent = device.label;
+                select.appendChild(option);
+            });
+            select.value = current && choices.some(device => device.deviceId === current) ? current : '';
+            (select.parentElement as HTMLElement).style.display = choices.length ? 'flex' : 'none';
+            return choices.length;
+        };
+
+        const inputs = fill(this.inputSelect, 'audioinput', selection.input);
+        const outputs = fill(this.outputSelect, 'audiooutput', selection.output);
+
+        this.hasDevices = inputs > 0 || outputs > 0;
+        this.updateVisibility();
+    }
+
+    /**
+     * Hidden along with the mic button for text-only placements
+     */
+    public setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+        this.updateVisibility();
+    }
+
+    private updateVisibility(): void {
+        const visible = this.enabled && this.hasDevices;
+        this.container.style.display = visible ? 'block' : 'none';
+        if (!visible) {
+            this.toggle(false);
+        }
+    }
+
+    public destroy(): void {
+        this.container.remove();
+    }
+}
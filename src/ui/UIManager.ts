@@ -1,4 +1,4 @@
-import { UIConfig, Message, ConnectionState } from '../types';
+import { UIConfig, Message, ConnectionState, ToolConfirmationRequest, ToolCallActivity, ToolRenderer, AudioDevice, AudioDeviceSelection, AudioLevels, ConversationSummary, TranscriptFormat } from '../types';
 import { ChatInterface } from './ChatInterface';
 import { FloatingButton } from './FloatingButton';
 
@@ -9,6 +9,18 @@ export interface UICallbacks {
     onToggleExpanded: (expanded: boolean) => void;
     onStartSession: () => void;
     onEndSession: () => void;
+    onToolDecision: (callId: string, approved: boolean) => void;
+    onVoiceChange: (voice: string) => void;     // '' selects the worker's default voice
+    onTalkStart: () => void;                    // Push-to-talk button/key pressed
+    onTalkEnd: () => void;
+    onInputDeviceChange: (deviceId: string) => void;   // '' selects the system default
+    onOutputDeviceChange: (deviceId: string) => void;
+    onWelcomeDismissed: () => void;
+    onShowHistory: () => void;                  // History view opened; answered with setConversationHistory()
+    onOpenConversation: (sessionId: string, mode: 'view' | 'continue') => void;
+    onCloseConversation: () => void;            // Back from a read-only conversation to the live transcript
+    onDeleteConversation: (sessionId: string) => void;
+    onDownloadTranscript: (format: TranscriptFormat) => void;
 }
 
 /**
@@ -157,6 +169,11 @@ export class UIManager {
                 to { opacity: 0; transform: scale(0.95); }
             }
             
+            @keyframes ew-spin {
+                from { transform: rotate(0deg); }
+                to { transform: rotate(360deg); }
+            }
+
             @keyframes ew-pulse {
                 0%, 100% { opacity: 1; }
                 50% { opacity: 0.6; }
@@ -359,12 +376,77 @@ export class UIManager {
         }
     }
 
+    public setVoiceOptions(voices: string[], current?: string): void {
+        this.chat?.setVoiceOptions(voices, current);
+    }
+
+    public setPushToTalk(shortcut: string | null): void {
+        this.chat?.setPushToTalk(shortcut);
+    }
+
+    public setWelcomeDismissed(dismissed: boolean): void {
+        this.chat?.setWelcomeDismissed(dismissed);
+    }
+
+    public setConversationHistory(conversations: ConversationSummary[], currentId: string | null): void {
+        this.chat?.setConversationHistory(conversations, currentId);
+    }
+
+    public showConversation(conversation: ConversationSummary, messages: Message[]): void {
+        this.chat?.showConversation(conversation, messages);
+    }
+
+    public closeConversation(): void {
+        this.chat?.closeConversation();
+    }
+
+    public setAudioLevels(levels: AudioLevels): void {
+        this.chat?.setAudioLevels(levels);
+    }
+
+    public setAudioDevices(devices: AudioDevice[], selection: AudioDeviceSelection): void {
+        this.chat?.setAudioDevices(devices, selection);
+    }
+
+    public setVoiceEnabled(enabled: boolean): void {
+        this.chat?.setVoiceEnabled(enabled);
+    }
+
     public setVoiceActive(active: boolean): void {
         if (this.chat) {
             this.chat.setVoiceActive(active);
         }
     }
 
+    public showToolConfirmation(request: ToolConfirmationRequest): void {
+        if (this.chat) {
+            this.chat.showToolConfirmation(request);
+        }
+
+        // Make sure the user sees the approval card
+        if (!this.isExpanded) {
+            this.expand();
+        }
+    }
+
+    public resolveToolConfirmation(callId: string, approved: boolean): void {
+        if (this.chat) {
+            this.chat.resolveToolConfirmation(callId, approved);
+        }
+    }
+
+    public showToolActivity(activity: ToolCallActivity): void {
+        if (this.chat) {
+            this.chat.showToolActivity(activity);
+        }
+    }
+
+    public setToolRenderer(name: string, renderer: ToolRenderer | null): void {
+        if (this.chat) {
+            this.chat.setToolRenderer(name, renderer);
+        }
+    }
+
     public showError(message: string): void {
         if (this.chat) {
             this.chat.showError(message);
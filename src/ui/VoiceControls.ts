@@ -3,6 +3,7 @@ import { icons } from './icons';
 /**
  * Voice Controls Component
  * Bottom-centered control bar with mic (+ glow), CC toggle, and stop buttons
+ * In push-to-talk mode the mic button (or a keyboard shortcut) is held to talk
  * Inspired by voice-code design
  */
 export class VoiceControls {
@@ -14,21 +15,30 @@ export class VoiceControls {
     private glowRing2: HTMLElement;
     private isListening: boolean = false;
     private isCCEnabled: boolean = false;
+    private pushToTalk: boolean = false;
+    private shortcut: string = 'Space';
+    private isTalking: boolean = false;
     private onMicClick: () => void;
     private onCCClick: () => void;
     private onStopClick: () => void;
+    private onTalkStart: () => void;
+    private onTalkEnd: () => void;
 
     constructor(
         parent: HTMLElement,
         callbacks: {
-            onMicClick: () => void;
+            onMicClick?: () => void;
             onCCClick: () => void;
             onStopClick: () => void;
+            onTalkStart?: () => void;
+            onTalkEnd?: () => void;
         }
     ) {
-        this.onMicClick = callbacks.onMicClick;
+        this.onMicClick = callbacks.onMicClick || (() => {});
         this.onCCClick = callbacks.onCCClick;
         this.onStopClick = callbacks.onStopClick;
+        this.onTalkStart = callbacks.onTalkStart || (() => {});
+        this.onTalkEnd = callbacks.onTalkEnd || (() => {});
 
         this.container = this.createContainer();
         this.glowRing1 = this.createGlowRing(1);
@@ -114,6 +124,15 @@ export class VoiceControls {
         button.innerHTML = icons.mic;
         button.addEventListener('click', () => this.handleMicClick());
 
+        // Hold-to-talk (push-to-talk mode only)
+        button.addEventListener('pointerdown', (event) => {
+            if (!this.pushToTalk) return;
+            button.setPointerCapture(event.pointerId);
+            this.startTalking();
+        });
+        button.addEventListener('pointerup', () => this.stopTalking());
+        button.addEventListener('pointercancel', () => this.stopTalking());
+
         // Add hover effects
         button.addEventListener('mouseenter', () => {
             if (this.isListening) {
@@ -216,9 +235,72 @@ export class VoiceControls {
     }
 
     private handleMicClick(): void {
+        if (this.pushToTalk) return;
         this.onMicClick();
     }
 
+    private handleKeyDown = (event: KeyboardEvent): void => {
+        if (event.code !== this.shortcut || event.repeat || this.isTypingTarget(event)) return;
+        event.preventDefault();
+        this.startTalking();
+    };
+
+    private handleKeyUp = (event: KeyboardEvent): void => {
+        if (event.code !== this.shortcut) return;
+        this.stopTalking();
+    };
+
+    private isTypingTarget(event: KeyboardEvent): boolean {
+        // composedPath reaches into the shadow root, where the chat input lives
+        const target = event.composedPath()[0] as HTMLElement | undefined;
+        return !!target && (
+            target.tagName === 'INPUT' ||
+            target.tagName === 'TEXTAREA' ||
+            target.tagName === 'SELECT' ||
+            target.isContentEditable
+        );
+    }
+
+    private startTalking(): void {
+        if (!this.pushToTalk || this.isTalking) return;
+        this.setTalking(true);
+        this.onTalkStart();
+    }
+
+    private stopTalking(): void {
+        if (!this.isTalking) return;
+        this.setTalking(false);
+        this.onTalkEnd();
+    }
+
+    /**
+     * Switch between toggle mode and push-to-talk with the given hold key (KeyboardEvent.code)
+     */
+    public setPushToTalk(enabled: boolean, shortcut: string = 'Space'): void {
+        this.stopTalking();
+        document.removeEventListener('keydown', this.handleKeyDown);
+        document.removeEventListener('keyup', this.handleKeyUp);
+
+        this.pushToTalk = enabled;
+        this.shortcut = shortcut;
+        this.micButton.setAttribute('aria-label', enabled ? `Hold to talk (${shortcut})` : 'Toggle microphone');
+        this.micButton.style.touchAction = enabled ? 'none' : '';
+
+        if (enabled) {
+            document.addEventListener('keydown', this.handleKeyDown);
+            document.addEventListener('keyup', this.handleKeyUp);
+        }
+    }
+
+    /**
+     * Hold-to-talk state: the mic is live only while talking
+     */
+    public setTalking(talking: boolean): void {
+        this.isTalking = talking;
+        this.micButton.setAttribute('aria-pressed', String(talking));
+        this.setListening(talking);
+    }
+
     private handleCCClick(): void {
         this.isCCEnabled = !this.isCCEnabled;
         this.updateCCButton();
@@ -289,6 +371,7 @@ export class VoiceControls {
      * Cleanup
      */
     public destroy(): void {
+        this.setPushToTalk(false);
         this.container.remove();
     }
 }
@@ -1,20 +1,35 @@
+import { AudioLevels } from '../types';
+
 /**
  * Voice Visualizer Component
- * 6-bar animated sound wave visualization inspired by voice-code design
+ * 6-bar sound wave visualization inspired by voice-code design
+ * Bar heights follow the measured audio level; the color tells who is talking
  */
 export class VoiceVisualizer {
+    // Relative bar heights (center bars peak highest)
+    private static readonly BAR_PROFILE = [0.45, 0.7, 1, 0.85, 0.55, 0.65];
+    private static readonly MIN_BAR_HEIGHT = 20;
+    private static readonly MAX_BAR_HEIGHT = 90;
+
     private container: HTMLElement;
     private visualizerElement: HTMLElement;
     private bars: HTMLElement[] = [];
     private isPlaying: boolean = false;
-    private animationSpeed: number = 1; // Speed multiplier
-
-    constructor(parent: HTMLElement) {
+    private colors: { user: string; assistant: string };
+    private color: string;
+
+    constructor(
+        parent: HTMLElement,
+        colors: { user: string; assistant: string } = { user: '#ff0d40', assistant: '#000000' },
+        before: Node | null = null
+    ) {
+        this.colors = colors;
+        this.color = colors.user;
         this.container = this.createContainer();
         this.visualizerElement = this.createVisualizer();
         this.createBars();
         this.createFadeOverlays();
-        parent.appendChild(this.container);
+        parent.insertBefore(this.container, before);
     }
 
     private createContainer(): HTMLElement {
@@ -22,6 +37,8 @@ export class VoiceVisualizer {
         container.className = 'ew-voice-visualizer-container';
         container.style.cssText = `
             position: relative;
+            align-self: center;
+            flex-shrink: 0;
             width: 120px;
             height: 80px;
             display: flex;
@@ -55,9 +72,9 @@ export class VoiceVisualizer {
             bar.style.cssText = `
                 width: 8px;
                 height: 20px;
-                background: #ff0d40;
+                background: ${this.color};
                 border-radius: 4px;
-                transition: height 0.1s ease;
+                transition: height 0.1s ease, background 0.2s ease, border-color 0.2s ease;
             `;
             this.bars.push(bar);
             this.visualizerElement.appendChild(bar);
@@ -105,80 +122,48 @@ export class VoiceVisualizer {
     }
 
     /**
-     * Start playing animation
+     * Filled bars (microphone live)
      */
     public play(): void {
         if (this.isPlaying) return;
         this.isPlaying = true;
-
-        // Add filled style
-        this.bars.forEach(bar => {
-            bar.style.background = '#ff0d40';
-            bar.style.border = 'none';
-        });
-
-        // Start animation
-        this.animateBars();
+        this.applyStyle();
     }
 
     /**
-     * Pause animation (show hollow bars)
+     * Hollow bars (microphone muted); the assistant's level still shows
      */
     public pause(): void {
         this.isPlaying = false;
-
-        // Change to hollow style
-        this.bars.forEach(bar => {
-            bar.style.background = 'transparent';
-            bar.style.border = '2px solid #ff0d40';
-            bar.style.height = '20px'; // Reset to base height
-        });
+        this.applyStyle();
     }
 
     /**
-     * Animate bars with barLoader keyframe pattern
-     * Replicates the voice-code barLoader animation
+     * Render the louder side: user (microphone) or assistant (playback), each 0-1
      */
-    private animateBars(): void {
-        if (!this.isPlaying) return;
-
-        // Bar heights for each keyframe (6 bars, 10 keyframes)
-        const keyframes = [
-            [20, 40, 60, 40, 20, 30], // 0%
-            [40, 60, 80, 60, 40, 50], // 10%
-            [30, 50, 70, 50, 30, 40], // 20%
-            [50, 70, 90, 70, 50, 60], // 30%
-            [20, 40, 60, 40, 20, 30], // 40%
-            [40, 60, 80, 60, 40, 50], // 50%
-            [30, 50, 70, 50, 30, 40], // 60%
-            [50, 70, 90, 70, 50, 60], // 70%
-            [20, 40, 60, 40, 20, 30], // 80%
-            [30, 50, 70, 50, 30, 40], // 90%
-        ];
-
-        let currentFrame = 0;
-        const frameDuration = (2000 / this.animationSpeed) / keyframes.length;
-
-        const animate = () => {
-            if (!this.isPlaying) return;
-
-            const heights = keyframes[currentFrame];
-            this.bars.forEach((bar, index) => {
-                bar.style.height = `${heights[index]}px`;
-            });
-
-            currentFrame = (currentFrame + 1) % keyframes.length;
-            setTimeout(() => requestAnimationFrame(animate), frameDuration);
-        };
+    public setLevels(levels: AudioLevels): void {
+        const assistant = levels.output > levels.input;
+        const level = assistant ? levels.output : (this.isPlaying ? levels.input : 0);
+        const color = assistant ? this.colors.assistant : this.colors.user;
+
+        if (color !== this.color) {
+            this.color = color;
+            this.applyStyle();
+        }
+        this.container.setAttribute('data-speaker', level > 0 ? (assistant ? 'assistant' : 'user') : 'none');
 
-        animate();
+        const { MIN_BAR_HEIGHT, MAX_BAR_HEIGHT, BAR_PROFILE } = VoiceVisualizer;
+        this.bars.forEach((bar, index) => {
+            const height = MIN_BAR_HEIGHT + (MAX_BAR_HEIGHT - MIN_BAR_HEIGHT) * level * BAR_PROFILE[index];
+            bar.style.height = `${Math.round(height)}px`;
+        });
     }
 
-    /**
-     * Set animation speed
-     */
-    public setSpeed(speed: number): void {
-        this.animationSpeed = speed;
+    private applyStyle(): void {
+        this.bars.forEach(bar => {
+            bar.style.background = this.isPlaying ? this.color : 'transparent';
+            bar.style.border = this.isPlaying ? 'none' : `2px solid ${this.color}`;
+        });
     }
 
     /**
@@ -0,0 +1,329 @@
+import { Message, RealtimeProvider, RealtimeEvent, RealtimeTransport, NormalizedRealtimeEvent, VoiceSession, SessionOptions, TurnDetectionConfig } from '../types';
+
+/**
+ * OpenAI Realtime API provider
+ * Also works with self-hosted gateways that speak the OpenAI realtime protocol (set baseUrl)
+ */
+export class OpenAIRealtimeProvider implements RealtimeProvider {
+    public static readonly DEFAULT_BASE_URL = 'https://api.openai.com/v1/realtime';
+    public static readonly DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+    public static readonly VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'sage', 'shimmer', 'verse'];
+
+    public readonly name = 'openai';
+    public readonly dataChannelLabel = 'oai-events';
+    public readonly voices = OpenAIRealtimeProvider.VOICES;
+    public readonly interruptNotActiveCode = 'response_cancel_not_active';
+    private baseUrl: string;
+
+    constructor(baseUrl?: string) {
+        this.baseUrl = (baseUrl || OpenAIRealtimeProvider.DEFAULT_BASE_URL).replace(/\/$/, '');
+    }
+
+    public async negotiate(offer: RTCSessionDescriptionInit, session: VoiceSession): Promise<RTCSessionDescriptionInit> {
+        // Ephemeral client secrets use the /v1/realtime?model=... endpoint
+        // The /v1/realtime/calls endpoint is only for direct API key usage
+        const model = session.model;
+
+        console.log('📤 Connecting to OpenAI Realtime API with ephemeral key...');
+        console.log('Base URL:', this.baseUrl);
+        console.log('Model:', model);
+        console.log('SDP length:', offer.sdp?.length);
+
+        const response = await fetch(`${this.baseUrl}?model=${model}`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${session.client_secret.value}`,
+                'Content-Type': 'application/sdp'
+            },
+            body: offer.sdp
+        });
+
+        console.log('📥 Response status:', response.status);
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error('❌ OpenAI Realtime API error:', response.status, response.statusText);
+            console.error('❌ Error body:', errorText);
+            throw new Error(`Failed to connect to OpenAI: ${response.status} ${response.statusText} - ${errorText}`);
+        }
+
+        const answerSdp = await response.text();
+        console.log('✅ Received SDP answer, length:', answerSdp.length);
+
+        // Note: Ephemeral key sessions don't provide a call_id in the same way
+        // Session termination happens via peer connection closure and track stopping
+        console.log('ℹ️ Using ephemeral key - session will terminate on peer connection close');
+
+        return {
+            type: 'answer',
+            sdp: answerSdp
+        };
+    }
+
+    public buildSessionUpdate(session: VoiceSession, options: SessionOptions = {}): RealtimeEvent {
+        const update: Record<string, any> = {
+            model: session.model,
+            // Note: OpenAI only accepts a voice change before the assistant has spoken
+            voice: options.voice || session.voice,
+            instructions: session.instructions,
+            input_audio_format: 'pcm16',
+            output_audio_format: 'pcm16',
+            input_audio_transcription: {
+                model: options.transcriptionModel || OpenAIRealtimeProvider.DEFAULT_TRANSCRIPTION_MODEL,
+                ...(options.transcriptionLanguage ? { language: options.transcriptionLanguage } : {})
+            },
+            turn_detection: this.buildTurnDetection(options.turnDetection),
+            tools: session.tools || []
+        };
+
+        if (options.temperature !== undefined) {
+            update.temperature = options.temperature;
+        }
+        if (options.maxResponseTokens !== undefined) {
+            update.max_response_output_tokens = options.maxResponseTokens;
+        }
+
+        return {
+            type: 'session.update',
+            session: update
+        };
+    }
+
+    private buildTurnDetection(config?: TurnDetectionConfig): Record<string, any> | null {
+        if (config?.type === 'push_to_talk') {
+            // Turns are committed manually on release
+            return null;
+        }
+
+        if (config?.type === 'semantic_vad') {
+            return {
+                type: 'semantic_vad',
+                ...(config.eagerness ? { eagerness: config.eagerness } : {})
+            };
+        }
+
+        return {
+            type: 'server_vad',
+            threshold: config?.threshold ?? 0.5,
+            prefix_padding_ms: config?.prefixPaddingMs ?? 300,
+            silence_duration_ms: config?.silenceDurationMs ?? 200
+        };
+    }
+
+    public buildPushToTalkEvents(phase: 'start' | 'end'): RealtimeEvent[] {
+        if (phase === 'start') {
+            // Drop anything captured before the button went down
+            return [{ type: 'input_audio_buffer.clear' }];
+        }
+
+        return [
+            { type: 'input_audio_buffer.commit' },
+            { type: 'response.create' }
+        ];
+    }
+
+    public buildInterruptEvents(itemId: string, audioEndMs: number, transport: RealtimeTransport): RealtimeEvent[] {
+        const events: RealtimeEvent[] = [
+            { type: 'response.cancel' },
+            {
+                type: 'conversation.item.truncate',
+                item_id: itemId,
+                content_index: 0,
+                audio_end_ms: Math.max(0, Math.round(audioEndMs))
+            }
+        ];
+
+        // WebRTC buffers output on the server side
+        if (transport === 'webrtc') {
+            events.push({ type: 'output_audio_buffer.clear' });
+        }
+
+        return events;
+    }
+
+    public buildTextMessage(text: string): RealtimeEvent[] {
+        return [
+            {
+                type: 'conversation.item.create',
+                item: {
+                    type: 'message',
+                    role: 'user',
+                    content: [{
+                        type: 'input_text',
+                        text
+                    }]
+                }
+            },
+            // Trigger response
+            { type: 'response.create' }
+        ];
+    }
+
+    public buildHistoryEvents(messages: Message[]): RealtimeEvent[] {
+        // System entries (tool decisions, execution logs) are UI notes rather than conversation turns
+        return messages
+            .filter(message => message.type !== 'system' && message.content)
+            .map(message => ({
+                type: 'conversation.item.create',
+                item: {
+                    type: 'message',
+                    role: message.type,
+                    content: [{
+                        type: message.type === 'user' ? 'input_text' : 'text',
+                        text: message.content
+                    }]
+                }
+            }));
+    }
+
+    public buildToolOutput(callId: string, output: string): RealtimeEvent[] {
+        return [
+            {
+                type: 'conversation.item.create',
+                item: {
+                    type: 'function_call_output',
+                    call_id: callId,
+                    output
+                }
+            },
+            // Let the model continue with the tool result
+            { type: 'response.create' }
+        ];
+    }
+
+    public buildStopEvents(transport: RealtimeTransport): RealtimeEvent[] {
+        // Note: We don't send response.cancel during cleanup as it may cause errors
+        // if there's no active response. Closing the peer connection is sufficient.
+        const events: RealtimeEvent[] = [
+            // Clear the input audio buffer to stop processing any pending audio
+            { type: 'input_audio_buffer.clear' }
+        ];
+
+        // Clear output audio buffer (WebRTC only)
+        if (transport === 'webrtc') {
+            events.push({ type: 'output_audio_buffer.clear' });
+        }
+
+        return events;
+    }
+
+    public openWebSocket(session: VoiceSession): WebSocket {
+        const wsUrl = this.baseUrl
+            .replace(/^http:\/\//, 'ws://')
+            .replace(/^https:\/\//, 'wss://');
+
+        console.log('📤 Opening OpenAI Realtime WebSocket with ephemeral key...');
+        console.log('WebSocket URL:', wsUrl);
+
+        // Browsers cannot set headers on WebSocket, so the ephemeral key travels as a subprotocol
+        return new WebSocket(`${wsUrl}?model=${session.model}`, [
+            'realtime',
+            `openai-insecure-api-key.${session.client_secret.value}`,
+            'openai-beta.realtime-v1'
+        ]);
+    }
+
+    public buildAudioAppend(audio: ArrayBuffer): RealtimeEvent {
+        return {
+            type: 'input_audio_buffer.append',
+            audio: this.arrayBufferToBase64(audio)
+        };
+    }
+
+    public normalizeEvent(event: RealtimeEvent): NormalizedRealtimeEvent | null {
+        switch (event.type) {
+            case 'session.created':
+                return { type: 'session.created' };
+
+            case 'session.updated':
+                return { type: 'session.updated' };
+
+            case 'input_audio_buffer.speech_started':
+                return { type: 'speech.start' };
+
+            case 'input_audio_buffer.speech_stopped':
+                return { type: 'speech.end' };
+
+            case 'conversation.item.input_audio_transcription.completed':
+                return { type: 'transcription', text: event.transcript, isFinal: true };
+
+            case 'conversation.item.input_audio_transcription.in_progress':
+                return { type: 'transcription', text: event.transcript, isFinal: false };
+
+            case 'response.created':
+                return { type: 'response.start' };
+
+            case 'response.text.delta':
+                return { type: 'text.delta', delta: event.delta };
+
+            case 'response.text.done':
+                return { type: 'text.done', text: event.text };
+
+            case 'response.output_item.added':
+                if (event.item?.type !== 'message') return { type: 'ignored' };
+                return { type: 'response.item', itemId: event.item.id };
+
+            case 'response.done':
+                return { type: 'response.done' };
+
+            case 'response.audio.delta':
+                if (!event.delta) return { type: 'ignored' };
+                return { type: 'audio.delta', audio: this.base64ToArrayBuffer(event.delta), itemId: event.item_id };
+
+            case 'response.audio.done':
+                return { type: 'audio.done' };
+
+            case 'response.audio_transcript.delta':
+                return { type: 'audio.transcript.delta', delta: event.delta, itemId: event.item_id };
+
+            case 'response.audio_transcript.done':
+                return { type: 'audio.transcript.done', transcript: event.transcript, itemId: event.item_id };
+
+            case 'output_audio_buffer.started':
+                return { type: 'audio.playback.start' };
+
+            case 'output_audio_buffer.stopped':
+            case 'output_audio_buffer.cleared':
+                return { type: 'audio.playback.stop' };
+
+            case 'response.function_call_arguments.done':
+                return {
+                    type: 'tool.call',
+                    callId: event.call_id,
+                    name: event.name,
+                    arguments: event.arguments
+                };
+
+            case 'error':
+                return { type: 'error', message: event.error?.message || 'Realtime error', code: event.error?.code };
+
+            case 'conversation.item.created':
+                return { type: 'ignored' };
+
+            default:
+                return null;
+        }
+    }
+
+    private arrayBufferToBase64(buffer: ArrayBuffer): string {
+        const bytes = new Uint8Array(buffer);
+        let binaryString = '';
+
+        for (let i = 0; i < bytes.length; i++) {
+            binaryString += String.fromCharCode(bytes[i]);
+        }
+
+        return btoa(binaryString);
+    }
+
+    private base64ToArrayBuffer(base64: string): ArrayBuffer {
+        const binaryString = atob(base64);
+        const bytes = new Uint8Array(binaryString.length);
+
+        for (let i = 0; i < binaryString.length; i++) {
+            bytes[i] = binaryString.charCodeAt(i);
+        }
+
+        return bytes.buffer;
+    }
+}
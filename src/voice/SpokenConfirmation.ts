@@ -0,0 +1,24 @@
+/**
+ * Reading a spoken answer to a tool confirmation
+ * Only a short standalone answer counts, so "ok so what about my order" or "don't forget the receipt" don't settle anything
+ */
+const MAX_ANSWER_WORDS = 4;
+const SPOKEN_YES = /^(yes|yeah|yep|sure|ok|okay|approve|approved|confirm|confirmed|go ahead|do it)( (please|go ahead|do it))?$/;
+const SPOKEN_NO = /^(no|nope|cancel|reject|deny|stop|don't|do not|don't do it|do not do it)( (thanks|thank you|cancel|stop|don't|don't do it))?$/;
+
+/**
+ * true for approval, false for rejection, null when the transcript is not an answer
+ */
+export function parseSpokenConfirmation(transcript: string): boolean | null {
+    const answer = transcript
+        .toLowerCase()
+        .replace(/[’‘]/g, "'")
+        .replace(/[^\w\s']+/g, ' ')
+        .trim()
+        .replace(/\s+/g, ' ');
+
+    if (!answer || answer.split(' ').length > MAX_ANSWER_WORDS) return null;
+    if (SPOKEN_NO.test(answer)) return false;
+    if (SPOKEN_YES.test(answer)) return true;
+    return null;
+}
@@ -0,0 +1,89 @@
+import { ClientTool } from '../types';
+
+/**
+ * Registry of browser-side tools exposed to the realtime agent
+ * Calls for registered tools are handled locally instead of on the server
+ */
+export class ToolRegistry {
+    private static readonly DEFAULT_TIMEOUT_MS = 10000;
+
+    private tools: Map<string, ClientTool> = new Map();
+
+    public register(tool: ClientTool): void {
+        if (!tool.name || typeof tool.handler !== 'function') {
+            throw new Error('Tool requires a name and a handler function');
+        }
+
+        if (this.tools.has(tool.name)) {
+            console.warn(`⚠️ ToolRegistry: Replacing existing tool "${tool.name}"`);
+        }
+
+        this.tools.set(tool.name, tool);
+    }
+
+    public unregister(name: string): boolean {
+        return this.tools.delete(name);
+    }
+
+    public has(name: string): boolean {
+        return this.tools.has(name);
+    }
+
+    public getNames(): string[] {
+        return Array.from(this.tools.keys());
+    }
+
+    /**
+     * Tool definitions in realtime session format
+     */
+    public getDefinitions(): any[] {
+        return Array.from(this.tools.values()).map(tool => ({
+            type: 'function',
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters || { type: 'object', properties: {} }
+        }));
+    }
+
+    /**
+     * Merge local tool definitions into server-provided ones (local tools win on name clash)
+     */
+    public mergeDefinitions(serverTools: any[] = []): any[] {
+        const local = this.getDefinitions();
+        const remaining = serverTools.filter(tool => !this.tools.has(tool.name));
+        return [...remaining, ...local];
+    }
+
+    /**
+     * Run a registered tool with its JSON-encoded arguments, enforcing the timeout
+     */
+    public async execute(name: string, argsJson: string): Promise<any> {
+        const tool = this.tools.get(name);
+        if (!tool) {
+            throw new Error(`Unknown client tool: ${name}`);
+        }
+
+        let args: any;
+        try {
+            args = argsJson ? JSON.parse(argsJson) : {};
+        } catch (error) {
+            throw new Error(`Invalid arguments for tool ${name}`);
+        }
+
+        const timeoutMs = tool.timeout || ToolRegistry.DEFAULT_TIMEOUT_MS;
+        let timer: any = null;
+
+        const timeout = new Promise((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`Tool ${name} timed out after ${timeoutMs}ms`)), timeoutMs);
+        });
+
+        try {
+            return await Promise.race([
+                Promise.resolve().then(() => tool.handler(args)),
+                timeout
+            ]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
@@ -1,15 +1,37 @@
 import { EventEmitter } from '../core/EventEmitter';
-import { PluginConfig, ConnectionAdapter, VoiceSession, RealtimeEvent, AudioConfig } from '../types';
+import { PluginConfig, ConnectionAdapter, VoiceSession, RealtimeEvent, AudioConfig, RealtimeProvider, RealtimeTransport, NormalizedRealtimeEvent, SelectedCandidatePair, IceCandidateInfo, ToolPolicy, ToolConfirmationRequest, ToolDecision, ToolCallActivity, ConversationContext, SessionOptions, AudioLevels, Message } from '../types';
+import { OpenAIRealtimeProvider } from './OpenAIRealtimeProvider';
+import { ToolRegistry } from './ToolRegistry';
+import { parseSpokenConfirmation } from './SpokenConfirmation';
 
 /**
- * WebRTC Manager for OpenAI Realtime API voice communication
+ * WebRTC Manager for realtime voice communication
+ * Vendor specifics (SDP exchange, session config, event names) live in a RealtimeProvider
+ * Falls back to a WebSocket transport when WebRTC cannot connect (e.g. UDP blocked)
  * Based on the Everworker voice implementation
  */
 export class WebRTCManager extends EventEmitter {
+    private static readonly DEFAULT_CONNECTION_TIMEOUT_MS = 30000;
+    private static readonly DEFAULT_TOOL_CONFIRMATION_TIMEOUT_MS = 60000;
+    private static readonly LEVEL_INTERVAL_MS = 66;        // ~15 Hz is plenty for meters (visualizer bars ease in between)
+    private static readonly LEVEL_EPSILON = 0.01;          // Smaller changes aren't emitted, so silence costs nothing
+    private static readonly SPOKEN_WORDS_PER_SECOND = 2.5; // Estimate when the full audio length is unknown
+    private static readonly DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+        { urls: 'stun:stun.l.google.com:19302' }
+    ];
+
     private config: PluginConfig;
     private connection: ConnectionAdapter;
+    private provider: RealtimeProvider;
+    private tools: ToolRegistry;
+    private context: ConversationContext = {};
+    private sessionOptions: SessionOptions;
+    private talking = false;    // Push-to-talk button/key held
     private pc: RTCPeerConnection | null = null;
     private dataChannel: RTCDataChannel | null = null;
+    private socket: WebSocket | null = null;
+    private transport: RealtimeTransport = 'webrtc';
+    private audioRecorder: AudioRecorder | null = null;
     private mediaStream: MediaStream | null = null;
     private audioContext: AudioContext | null = null;
     private session: VoiceSession | null = null;
@@ -19,11 +41,41 @@ export class WebRTCManager extends EventEmitter {
     private audioQueue: ArrayBuffer[] = [];
     private audioPlayer: AudioPlayer | null = null;
     private audioElement: HTMLAudioElement | null = null;
-
-    constructor(config: PluginConfig, connection: ConnectionAdapter) {
+    private assistantItemId: string | null = null;    // Assistant message currently being spoken
+    private assistantTranscript = '';                 // Its transcript so far
+    private playbackStartedAt: number | null = null;  // WebRTC output playback start (remote track)
+    private interruptedItems: Set<string> = new Set();
+    private inputDeviceId: string | null = null;      // null = system default
+    private outputDeviceId: string | null = null;
+    private remoteStream: MediaStream | null = null;
+    private inputMeter: AudioLevelMeter | null = null;
+    private outputMeter: AudioLevelMeter | null = null;
+    private levelTimer: ReturnType<typeof setInterval> | null = null;
+    private pendingConfirmations: Map<string, { request: ToolConfirmationRequest; resolve: (decision: ToolDecision) => void; timer: any }> = new Map();
+
+    constructor(config: PluginConfig, connection: ConnectionAdapter, tools: ToolRegistry = new ToolRegistry()) {
         super();
         this.config = config;
         this.connection = connection;
+        this.tools = tools;
+        this.sessionOptions = { ...config.session };
+        this.provider = this.createProvider();
+    }
+
+    private createProvider(): RealtimeProvider {
+        const provider = this.config.realtime?.provider || 'openai';
+
+        if (typeof provider !== 'string') {
+            console.log(`🔌 WebRTC Manager: Using custom realtime provider "${provider.name}"`);
+            return provider;
+        }
+
+        switch (provider) {
+            case 'openai':
+                return new OpenAIRealtimeProvider(this.config.realtime?.baseUrl);
+            default:
+                throw new Error(`Unknown realtime provider: ${provider}`);
+        }
     }
 
     /**
@@ -33,6 +85,247 @@ export class WebRTCManager extends EventEmitter {
         return this.session;
     }
 
+    /**
+     * Visitor context sent with the ephemeral key request and, if enabled, added to the instructions
+     */
+    public setContext(context: ConversationContext): void {
+        this.context = context;
+
+        if (this.config.features?.injectContextIntoInstructions && this.session && this.isReady()) {
+            this.sendSessionUpdate();
+        }
+    }
+
+    /**
+     * Change voice or model options; re-sends session.update when the session is live
+     */
+    public updateSession(options: SessionOptions): void {
+        this.sessionOptions = { ...this.sessionOptions, ...options };
+
+        if (options.turnDetection) {
+            this.talking = false;
+            this.setMicrophoneEnabled(!this.isPushToTalk());
+        }
+
+        if (this.session && this.isReady()) {
+            this.sendSessionUpdate();
+        }
+    }
+
+    public isPushToTalk(): boolean {
+        return this.sessionOptions.turnDetection?.type === 'push_to_talk';
+    }
+
+    /**
+     * Push-to-talk: open the mic while held, commit the turn and ask for a response on release
+     */
+    public setTalking(talking: boolean): void {
+        if (!this.isPushToTalk() || talking === this.talking || !this.isReady()) {
+            return;
+        }
+
+        this.talking = talking;
+        this.setMicrophoneEnabled(talking);
+        if (talking) {
+            this.handleBargeIn();
+        }
+
+        const events = this.provider.buildPushToTalkEvents?.(talking ? 'start' : 'end') || [];
+        events.forEach(event => this.sendEvent(event));
+    }
+
+    /**
+     * Output selection needs HTMLMediaElement.setSinkId (not available in Firefox < 116 or Safari)
+     */
+    public static supportsOutputSelection(): boolean {
+        return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+    }
+
+    /**
+     * Capture from another microphone; a live session gets the new track without renegotiating
+     */
+    public async setInputDevice(deviceId: string | null): Promise<void> {
+        this.inputDeviceId = deviceId;
+        if (this.isRecording) {
+            await this.switchMicrophone();
+        }
+    }
+
+    /**
+     * Play the assistant on another speaker
+     */
+    public async setOutputDevice(deviceId: string | null): Promise<void> {
+        this.outputDeviceId = deviceId;
+        await this.applyOutputDevice(deviceId || '');
+    }
+
+    private async applyOutputDevice(sinkId: string): Promise<void> {
+        if (this.audioElement && WebRTCManager.supportsOutputSelection()) {
+            await this.audioElement.setSinkId(sinkId);
+        }
+
+        // WebSocket playback goes through the AudioContext (Chromium only)
+        const context = this.audioContext as (AudioContext & { setSinkId?: (id: string) => Promise<void> }) | null;
+        if (context?.setSinkId) {
+            await context.setSinkId(sinkId);
+        }
+    }
+
+    private getAudioConstraints(): MediaTrackConstraints {
+        return {
+            // 'ideal' falls back to the default device if the chosen one is gone
+            ...(this.inputDeviceId ? { deviceId: { ideal: this.inputDeviceId } } : {}),
+            echoCancellation: true,
+            noiseSuppression: true,
+            autoGainControl: true,
+            sampleRate: 24000
+        };
+    }
+
+    /**
+     * Re-acquire the microphone and hand the new track to the live session
+     */
+    private async switchMicrophone(): Promise<void> {
+        console.log('🔁 Switching microphone...');
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: this.getAudioConstraints() });
+
+        // Recording stopped while we were waiting for the device
+        if (!this.isRecording) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+
+        const track = stream.getAudioTracks()[0];
+        const previous = this.mediaStream;
+        this.mediaStream = stream;
+        this.setMicrophoneEnabled(!this.isPushToTalk() || this.talking);
+
+        if (this.pc) {
+            const sender = this.pc.getSenders().find(s => s.track === null || s.track.kind === 'audio');
+            await sender?.replaceTrack(track);
+        }
+        if (this.audioRecorder) {
+            this.audioRecorder.stop();
+            this.audioRecorder.start(stream);
+        }
+
+        previous?.getTracks().forEach(old => old.stop());
+        this.attachInputMeter();
+        console.log('✅ Microphone switched to:', track.label);
+        this.emit('device:input', track.label);
+    }
+
+    /**
+     * Devices were plugged in or removed: keep the session on a working mic and speaker
+     */
+    private handleDeviceChange = async (): Promise<void> => {
+        try {
+            const devices = await navigator.mediaDevices.enumerateDevices();
+            const inputs = devices.filter(device => device.kind === 'audioinput');
+            const outputs = devices.filter(device => device.kind === 'audiooutput');
+
+            // A chosen speaker that was unplugged falls back to the default (and comes back when replugged)
+            if (this.outputDeviceId) {
+                const available = outputs.some(device => device.deviceId === this.outputDeviceId);
+                await this.applyOutputDevice(available ? this.outputDeviceId : '');
+            }
+
+            const track = this.mediaStream?.getAudioTracks()[0];
+            if (this.isRecording && track && inputs.length) {
+                const settings = track.getSettings();
+                const wanted = inputs.some(device => device.deviceId === this.inputDeviceId) ? this.inputDeviceId : null;
+                const currentGone = !inputs.some(device => device.deviceId === settings.deviceId);
+                // Following the default: the OS may have switched it (e.g. a headset was connected)
+                const defaultInput = inputs.find(device => device.deviceId === 'default');
+                const defaultMoved = !wanted && !!defaultInput && !!settings.groupId && defaultInput.groupId !== settings.groupId;
+
+                if (track.readyState === 'ended' || currentGone || defaultMoved || (wanted && wanted !== settings.deviceId)) {
+                    await this.switchMicrophone();
+                }
+            }
+
+            this.emit('devices:change');
+        } catch (error) {
+            console.error('❌ Failed to handle audio device change:', error);
+        }
+    };
+
+    /**
+     * Measure microphone and playback levels and emit them as 'audio:level' about 15 times a second, when they change
+     */
+    private startLevelMetering(): void {
+        if (!this.audioContext) return;
+
+        this.inputMeter = new AudioLevelMeter(this.audioContext);
+        this.outputMeter = new AudioLevelMeter(this.audioContext);
+        this.attachInputMeter();
+        this.attachOutputMeter();
+
+        let last: AudioLevels = { input: 0, output: 0 };
+        this.levelTimer = setInterval(() => {
+            if (!this.inputMeter || !this.outputMeter) return;
+            const levels: AudioLevels = { input: this.inputMeter.read(), output: this.outputMeter.read() };
+            if (Math.abs(levels.input - last.input) < WebRTCManager.LEVEL_EPSILON &&
+                Math.abs(levels.output - last.output) < WebRTCManager.LEVEL_EPSILON) {
+                return;
+            }
+            last = levels;
+            this.emit('audio:level', levels);
+        }, WebRTCManager.LEVEL_INTERVAL_MS);
+    }
+
+    private stopLevelMetering(): void {
+        if (this.levelTimer) {
+            clearInterval(this.levelTimer);
+            this.levelTimer = null;
+        }
+        this.inputMeter?.detach();
+        this.outputMeter?.detach();
+        this.inputMeter = null;
+        this.outputMeter = null;
+        this.emit('audio:level', { input: 0, output: 0 } as AudioLevels);
+    }
+
+    private attachInputMeter(): void {
+        if (this.inputMeter && this.audioContext && this.mediaStream) {
+            this.inputMeter.attach(this.audioContext.createMediaStreamSource(this.mediaStream));
+        }
+    }
+
+    private attachOutputMeter(): void {
+        if (!this.outputMeter || !this.audioContext) return;
+
+        // WebSocket audio is played through the AudioContext; WebRTC audio arrives as a remote track
+        if (this.transport === 'websocket' && this.audioPlayer) {
+            this.outputMeter.attach(this.audioPlayer.getOutput());
+        } else if (this.remoteStream) {
+            this.outputMeter.attach(this.audioContext.createMediaStreamSource(this.remoteStream));
+        }
+    }
+
+    private setMicrophoneEnabled(enabled: boolean): void {
+        this.mediaStream?.getAudioTracks().forEach(track => {
+            track.enabled = enabled;
+        });
+    }
+
+    /**
+     * Get the transport carrying the realtime session ('webrtc' or 'websocket')
+     */
+    public getTransport(): RealtimeTransport {
+        return this.transport;
+    }
+
+    /**
+     * Whether the realtime event channel (data channel or WebSocket) is open
+     */
+    public isReady(): boolean {
+        if (this.transport === 'websocket') {
+            return this.socket?.readyState === WebSocket.OPEN;
+        }
+        return this.dataChannel?.readyState === 'open';
+    }
+
     public async initialize(): Promise<void> {
         try {
             console.log('🎤 WebRTC Manager: Starting initialization...');
@@ -49,14 +342,21 @@ export class WebRTCManager extends EventEmitter {
                 fullSession: this.session
             });
 
-            // Setup WebRTC connection
-            console.log('🔌 WebRTC Manager: Setting up WebRTC connection...');
-            await this.setupWebRTC();
+            // Setup realtime transport (WebRTC, or WebSocket fallback)
+            console.log('🔌 WebRTC Manager: Setting up realtime transport...');
+            await this.connectTransport();
 
             // Initialize audio context
             console.log('🔊 WebRTC Manager: Initializing audio context...');
             this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
             this.audioPlayer = new AudioPlayer(this.audioContext);
+            if (this.outputDeviceId) {
+                this.applyOutputDevice(this.outputDeviceId).catch(error => {
+                    console.warn('⚠️ Could not select audio output, using the default:', error);
+                });
+            }
+            navigator.mediaDevices?.addEventListener('devicechange', this.handleDeviceChange);
+            this.startLevelMetering();
 
             console.log('🎉 WebRTC Manager: Initialization complete!');
         } catch (error) {
@@ -73,11 +373,33 @@ export class WebRTCManager extends EventEmitter {
 
     private async getEphemeralKey(): Promise<VoiceSession> {
         if ('getEphemeralKey' in this.connection) {
-            return (this.connection as any).getEphemeralKey();
+            return (this.connection as any).getEphemeralKey(this.context, this.sessionOptions.voice);
         }
         throw new Error('Connection adapter does not support voice');
     }
 
+    private async connectTransport(): Promise<void> {
+        const mode = this.config.realtime?.transport || 'auto';
+
+        if (mode === 'websocket') {
+            console.log('🔌 WebRTC Manager: WebSocket transport forced via config');
+            await this.setupWebSocket();
+            return;
+        }
+
+        try {
+            await this.setupWebRTC();
+        } catch (error) {
+            if (mode !== 'auto' || !this.provider.openWebSocket) {
+                throw error;
+            }
+
+            console.warn('⚠️ WebRTC connection failed, falling back to WebSocket transport:', error);
+            this.closePeerConnection();
+            await this.setupWebSocket();
+        }
+    }
+
     private async setupWebRTC(): Promise<void> {
         if (!this.session) {
             console.error('❌ No session available for WebRTC setup');
@@ -86,11 +408,13 @@ export class WebRTCManager extends EventEmitter {
 
         console.log('📡 Creating RTCPeerConnection...');
         // Create peer connection
-        this.pc = new RTCPeerConnection({
-            iceServers: [
-                { urls: 'stun:stun.l.google.com:19302' }
-            ]
+        this.transport = 'webrtc';
+        const rtcConfig = this.buildRTCConfiguration();
+        console.log('🧊 ICE configuration:', {
+            servers: rtcConfig.iceServers?.length || 0,
+            policy: rtcConfig.iceTransportPolicy
         });
+        this.pc = new RTCPeerConnection(rtcConfig);
 
         // Add connection state change handler
         this.pc.onconnectionstatechange = () => {
@@ -101,9 +425,9 @@ export class WebRTCManager extends EventEmitter {
             console.log('🧊 ICE connection state:', this.pc?.iceConnectionState);
         };
 
-        console.log('📢 Creating data channel "oai-events"...');
+        console.log(`📢 Creating data channel "${this.provider.dataChannelLabel}"...`);
         // Setup data channel for events
-        this.dataChannel = this.pc.createDataChannel('oai-events', {
+        this.dataChannel = this.pc.createDataChannel(this.provider.dataChannelLabel, {
             ordered: true
         });
 
@@ -123,8 +447,15 @@ export class WebRTCManager extends EventEmitter {
                 this.audioElement = document.createElement('audio');
                 this.audioElement.autoplay = true;
                 console.log('🔊 Created audio element for playback');
+                if (this.outputDeviceId) {
+                    this.applyOutputDevice(this.outputDeviceId).catch(error => {
+                        console.warn('⚠️ Could not select audio output, using the default:', error);
+                    });
+                }
             }
             this.audioElement.srcObject = event.streams[0];
+            this.remoteStream = event.streams[0];
+            this.attachOutputMeter();
             console.log('🎵 Audio element configured with stream');
         };
 
@@ -134,9 +465,9 @@ export class WebRTCManager extends EventEmitter {
         console.log('📤 Setting local description...');
         await this.pc.setLocalDescription(offer);
 
-        console.log('🌐 Connecting to OpenAI Realtime API...');
-        // Get answer from OpenAI
-        const answer = await this.connectToOpenAI(offer);
+        console.log(`🌐 Connecting to realtime provider "${this.provider.name}"...`);
+        // Get answer from the realtime provider
+        const answer = await this.provider.negotiate(offer, this.session);
         console.log('📥 Setting remote description...');
         await this.pc.setRemoteDescription(answer);
 
@@ -144,6 +475,84 @@ export class WebRTCManager extends EventEmitter {
         // Wait for connection
         await this.waitForConnection();
         console.log('✅ WebRTC connection established!');
+
+        // Report which candidate pair won (useful to tell direct vs TURN relay)
+        this.reportSelectedCandidatePair();
+    }
+
+    private buildRTCConfiguration(): RTCConfiguration {
+        const configured = this.config.realtime?.iceServers;
+        const fromServer = this.session?.iceServers || [];
+
+        // Config servers replace the default STUN; server-provided TURN credentials are always added
+        const iceServers = [
+            ...(configured || (fromServer.length > 0 ? [] : WebRTCManager.DEFAULT_ICE_SERVERS)),
+            ...fromServer
+        ];
+
+        const iceTransportPolicy = this.config.realtime?.iceTransportPolicy || 'all';
+        if (iceTransportPolicy === 'relay' && !iceServers.some(server => this.isTurnServer(server))) {
+            console.warn('⚠️ iceTransportPolicy is "relay" but no TURN server is configured - connection will fail');
+        }
+
+        return { iceServers, iceTransportPolicy };
+    }
+
+    private isTurnServer(server: RTCIceServer): boolean {
+        const urls = Array.isArray(server.urls) ? server.urls : [server.urls];
+        return urls.some(url => url.startsWith('turn:') || url.startsWith('turns:'));
+    }
+
+    private async reportSelectedCandidatePair(): Promise<void> {
+        if (!this.pc) return;
+
+        try {
+            const stats = await this.pc.getStats();
+            let pair: any = null;
+
+            stats.forEach((report: any) => {
+                if (report.type === 'transport' && report.selectedCandidatePairId) {
+                    pair = stats.get(report.selectedCandidatePairId);
+                }
+            });
+
+            // Firefox has no transport stats - fall back to the nominated pair
+            if (!pair) {
+                stats.forEach((report: any) => {
+                    if (report.type === 'candidate-pair' && report.nominated && report.state === 'succeeded') {
+                        pair = report;
+                    }
+                });
+            }
+
+            if (!pair) {
+                console.warn('⚠️ Could not determine selected ICE candidate pair');
+                return;
+            }
+
+            const selected: SelectedCandidatePair = {
+                local: this.toCandidateInfo(stats.get(pair.localCandidateId)),
+                remote: this.toCandidateInfo(stats.get(pair.remoteCandidateId)),
+                state: pair.state,
+                currentRoundTripTime: pair.currentRoundTripTime
+            };
+
+            console.log('🧊 Selected ICE candidate pair:', selected);
+            this.emit('ice:selected', selected);
+        } catch (error) {
+            console.warn('⚠️ Failed to read ICE stats:', error);
+        }
+    }
+
+    private toCandidateInfo(report: any): IceCandidateInfo {
+        if (!report) return {};
+        return {
+            candidateType: report.candidateType,
+            protocol: report.protocol,
+            address: report.address || report.ip,
+            port: report.port,
+            relayProtocol: report.relayProtocol
+        };
     }
 
     private setupDataChannelHandlers(): void {
@@ -162,14 +571,7 @@ export class WebRTCManager extends EventEmitter {
         };
 
         this.dataChannel.onmessage = (event) => {
-            try {
-                const data = JSON.parse(event.data);
-                console.log('📨 Received event:', data.type, data);
-                this.handleRealtimeEvent(data);
-            } catch (error) {
-                console.error('❌ Failed to parse realtime event:', error);
-                console.error('Raw data:', event.data);
-            }
+            this.handleIncomingMessage(event.data);
         };
 
         this.dataChannel.onerror = (error) => {
@@ -185,68 +587,95 @@ export class WebRTCManager extends EventEmitter {
         console.log('📊 Data channel initial state:', this.dataChannel.readyState);
     }
 
-    private async connectToOpenAI(offer: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit> {
+    private async setupWebSocket(): Promise<void> {
         if (!this.session) {
+            console.error('❌ No session available for WebSocket setup');
             throw new Error('No session available');
         }
 
-        // Ephemeral client secrets use the /v1/realtime?model=... endpoint
-        // The /v1/realtime/calls endpoint is only for direct API key usage
-        const baseUrl = 'https://api.openai.com/v1/realtime';
-        const model = this.session.model;
+        if (!this.provider.openWebSocket || !this.provider.buildAudioAppend) {
+            throw new Error(`Realtime provider "${this.provider.name}" does not support WebSocket transport`);
+        }
 
-        console.log('📤 Connecting to OpenAI Realtime API with ephemeral key...');
-        console.log('Model:', model);
-        console.log('SDP length:', offer.sdp?.length);
+        this.transport = 'websocket';
 
-        const response = await fetch(`${baseUrl}?model=${model}`, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${this.session.client_secret.value}`,
-                'Content-Type': 'application/sdp'
-            },
-            body: offer.sdp
-        });
+        console.log(`🌐 Opening WebSocket to realtime provider "${this.provider.name}"...`);
+        const socket = this.provider.openWebSocket(this.session);
+        this.socket = socket;
 
-        console.log('📥 Response status:', response.status);
+        await new Promise<void>((resolve, reject) => {
+            let opened = false;
+            const timeoutMs = this.getConnectionTimeout();
+            const timeout = setTimeout(() => {
+                console.error(`❌ WebSocket connection timeout after ${timeoutMs / 1000} seconds`);
+                reject(new Error('WebSocket connection timeout'));
+            }, timeoutMs);
+
+            socket.onopen = () => {
+                opened = true;
+                clearTimeout(timeout);
+                console.log('✅ Realtime WebSocket opened!');
+                console.log('⏸️ Waiting for session.created event before sending configuration...');
+                resolve();
+
+                // Same signal as the WebRTC data channel so the plugin does not care about the transport
+                this.emit('dataChannel:ready');
+            };
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error('❌ OpenAI Realtime API error:', response.status, response.statusText);
-            console.error('❌ Error body:', errorText);
-            throw new Error(`Failed to connect to OpenAI: ${response.status} ${response.statusText} - ${errorText}`);
-        }
+            socket.onmessage = (event) => {
+                this.handleIncomingMessage(event.data);
+            };
+
+            socket.onerror = (error) => {
+                console.error('❌ Realtime WebSocket error:', error);
+                if (!opened) {
+                    clearTimeout(timeout);
+                    reject(new Error('WebSocket connection failed'));
+                } else if (!this.isCleaningUp) {
+                    this.emit('error', new Error('Realtime WebSocket error'));
+                }
+            };
 
-        const answerSdp = await response.text();
-        console.log('✅ Received SDP answer, length:', answerSdp.length);
+            socket.onclose = (event) => {
+                console.log('🔌 Realtime WebSocket closed:', event.code, event.reason);
+            };
+        });
+    }
 
-        // Note: Ephemeral key sessions don't provide a call_id in the same way
-        // Session termination happens via peer connection closure and track stopping
-        console.log('ℹ️ Using ephemeral key - session will terminate on peer connection close');
+    private handleIncomingMessage(payload: string): void {
+        try {
+            const data = JSON.parse(payload);
+            console.log('📨 Received event:', data.type, data);
+            this.handleRealtimeEvent(data);
+        } catch (error) {
+            console.error('❌ Failed to parse realtime event:', error);
+            console.error('Raw data:', payload);
+        }
+    }
 
-        return {
-            type: 'answer',
-            sdp: answerSdp
-        };
+    private getConnectionTimeout(): number {
+        return this.config.realtime?.connectionTimeout || WebRTCManager.DEFAULT_CONNECTION_TIMEOUT_MS;
     }
 
     private async waitForConnection(): Promise<void> {
         return new Promise((resolve, reject) => {
-            console.log('⏱️ Starting connection timeout (30s)...');
+            const timeoutMs = this.getConnectionTimeout();
+            console.log(`⏱️ Starting connection timeout (${timeoutMs / 1000}s)...`);
             const timeout = setTimeout(() => {
-                console.error('❌ Connection timeout after 30 seconds');
+                console.error(`❌ Connection timeout after ${timeoutMs / 1000} seconds`);
                 reject(new Error('WebRTC connection timeout'));
-            }, 30000);
+            }, timeoutMs);
 
             const checkConnection = () => {
                 const state = this.pc?.connectionState;
+                const iceState = this.pc?.iceConnectionState;
                 console.log('🔍 Checking connection state:', state);
                 
                 if (state === 'connected') {
                     clearTimeout(timeout);
                     console.log('✅ Connection established!');
                     resolve();
-                } else if (state === 'failed') {
+                } else if (state === 'failed' || iceState === 'failed') {
                     clearTimeout(timeout);
                     console.error('❌ Connection failed!');
                     reject(new Error('WebRTC connection failed'));
@@ -260,125 +689,146 @@ export class WebRTCManager extends EventEmitter {
     }
 
     private sendSessionUpdate(): void {
-        if (!this.session || !this.dataChannel) {
-            console.error('❌ Cannot send session update - missing session or data channel');
+        if (!this.session) {
+            console.error('❌ Cannot send session update - missing session');
             return;
         }
 
-        if (this.dataChannel.readyState !== 'open') {
-            console.error('❌ Cannot send session update - data channel not open. State:', this.dataChannel.readyState);
+        if (!this.isReady()) {
+            console.error(`❌ Cannot send session update - ${this.transport} channel not open`);
             return;
         }
 
-        const sessionConfig: RealtimeEvent = {
-            type: 'session.update',
-            session: {
-                model: this.session.model,
-                voice: this.session.voice,
-                instructions: this.session.instructions,
-                input_audio_format: 'pcm16',
-                output_audio_format: 'pcm16',
-                input_audio_transcription: {
-                    model: 'whisper-1'
-                },
-                turn_detection: {
-                    type: 'server_vad',
-                    threshold: 0.5,
-                    prefix_padding_ms: 300,
-                    silence_duration_ms: 200
-                },
-                tools: this.session.tools || []
-            }
-        };
+        // Client-side tools are merged with the worker's server tools
+        const sessionConfig = this.provider.buildSessionUpdate({
+            ...this.session,
+            instructions: this.buildInstructions(),
+            tools: this.tools.mergeDefinitions(this.session.tools)
+        }, this.sessionOptions);
 
         console.log('📤 Sending session update:', sessionConfig);
         this.sendEvent(sessionConfig);
         console.log('✅ Session update sent!');
     }
 
-    private sendEvent(event: RealtimeEvent): void {
-        if (this.dataChannel && this.dataChannel.readyState === 'open') {
-            const eventStr = JSON.stringify(event);
+    /**
+     * Re-send session configuration after client tools were registered or removed
+     */
+    public refreshTools(): void {
+        if (!this.session || !this.isReady()) return;
+        console.log('🔧 Refreshing session tools:', this.tools.getNames());
+        this.sendSessionUpdate();
+    }
+
+    private buildInstructions(): string {
+        const instructions = this.session?.instructions || '';
+        if (!this.config.features?.injectContextIntoInstructions) {
+            return instructions;
+        }
+
+        const lines: string[] = [];
+        const { user, page } = this.context;
+        if (user) {
+            lines.push(`User: ${JSON.stringify(user)}`);
+        }
+        if (page) {
+            lines.push(`Page: ${JSON.stringify(page)}`);
+        }
+
+        return lines.length
+            ? `${instructions}\n\n# Visitor context\n${lines.join('\n')}`
+            : instructions;
+    }
+
+    private sendEvent(event: RealtimeEvent, quiet: boolean = false): void {
+        if (!this.isReady()) {
+            console.error(`❌ Cannot send event - ${this.transport} channel not ready`);
+            return;
+        }
+
+        const eventStr = JSON.stringify(event);
+        if (!quiet) {
             console.log(`📮 Sending event type: ${event.type}, size: ${eventStr.length} bytes`);
-            this.dataChannel.send(eventStr);
+        }
+
+        if (this.transport === 'websocket') {
+            this.socket!.send(eventStr);
         } else {
-            console.error('❌ Cannot send event - data channel not ready. State:', this.dataChannel?.readyState);
+            this.dataChannel!.send(eventStr);
         }
     }
 
     private sendStopEvents(): void {
-        console.log('🛑 Sending stop events to OpenAI...');
+        console.log('🛑 Sending stop events to realtime provider...');
 
-        // Note: We don't send response.cancel during cleanup as it may cause errors
-        // if there's no active response. Closing the peer connection is sufficient.
+        this.provider.buildStopEvents(this.transport).forEach(event => {
+            this.sendEvent(event);
+            console.log(`📤 Sent ${event.type}`);
+        });
+    }
 
-        // Clear the input audio buffer to stop processing any pending audio
-        this.sendEvent({ type: 'input_audio_buffer.clear' });
-        console.log('📤 Sent input_audio_buffer.clear');
+    private handleRealtimeEvent(raw: RealtimeEvent): void {
+        console.log(`🎯 Handling event: ${raw.type}`);
 
-        // Clear output audio buffer (WebRTC only)
-        this.sendEvent({ type: 'output_audio_buffer.clear' });
-        console.log('📤 Sent output_audio_buffer.clear');
-    }
+        const event = this.provider.normalizeEvent(raw);
+        if (!event) {
+            console.warn('⚠️ Unhandled realtime event:', raw.type, raw);
+            return;
+        }
 
-    private handleRealtimeEvent(event: RealtimeEvent): void {
-        console.log(`🎯 Handling event: ${event.type}`);
-        
         switch (event.type) {
             case 'session.created':
-                console.log('🎉 Session created successfully:', event);
+                console.log('🎉 Session created successfully:', raw);
                 // NOW send the session configuration
                 console.log('📤 Sending session configuration...');
                 this.sendSessionUpdate();
                 break;
                 
             case 'session.updated':
-                console.log('✅ Session updated successfully:', event);
+                console.log('✅ Session updated successfully:', raw);
                 break;
 
-            case 'input_audio_buffer.speech_started':
+            case 'speech.start':
                 console.log('🎤 Speech started detected');
+                this.handleBargeIn();
                 this.emit('speech:start');
                 break;
 
-            case 'input_audio_buffer.speech_stopped':
+            case 'speech.end':
                 console.log('🔇 Speech stopped detected');
                 this.emit('speech:end');
                 break;
 
-            case 'conversation.item.input_audio_transcription.completed':
-                console.log('📢 Transcription completed:', event.transcript);
-                this.emit('transcription', event.transcript, true);
-                // Also emit as a message for chat history
-                if (event.transcript) {
-                    this.emit('message', {
-                        type: 'user',
-                        content: event.transcript,
-                        source: 'voice'
-                    });
+            case 'transcription':
+                if (event.isFinal) {
+                    console.log('📢 Transcription completed:', event.text);
+                    this.handleSpokenConfirmation(event.text);
+                    this.emit('transcription', event.text, true);
+                    // Also emit as a message for chat history
+                    if (event.text) {
+                        this.emit('message', {
+                            type: 'user',
+                            content: event.text,
+                            source: 'voice'
+                        });
+                    }
+                } else {
+                    console.log('📝 Transcription in progress:', event.text);
+                    this.emit('transcription', event.text, false);
                 }
                 break;
 
-            case 'conversation.item.input_audio_transcription.in_progress':
-                console.log('📝 Transcription in progress:', event.transcript);
-                this.emit('transcription', event.transcript, false);
-                break;
-                
-            case 'conversation.item.created':
-                console.log('💬 Conversation item created:', event);
-                break;
-
-            case 'response.created':
+            case 'response.start':
                 console.log('🎬 Response creation started');
                 break;
                 
-            case 'response.text.delta':
+            case 'text.delta':
                 // Accumulate text deltas for complete message
                 console.log('✍️ Text delta received:', event.delta);
                 this.emit('text:delta', event.delta);
                 break;
             
-            case 'response.text.done':
+            case 'text.done':
                 // Complete text response
                 console.log('✅ Response text complete:', event.text);
                 if (event.text) {
@@ -396,20 +846,40 @@ export class WebRTCManager extends EventEmitter {
                 this.emit('response:complete', '');
                 break;
 
-            case 'response.audio.delta':
-                if (event.delta) {
-                    console.log('🎵 Audio delta received, size:', event.delta.length);
-                    const audioData = this.base64ToArrayBuffer(event.delta);
-                    this.handleAudioOutput(audioData);
+            case 'response.item':
+                this.assistantItemId = event.itemId;
+                this.assistantTranscript = '';
+                break;
+
+            case 'audio.delta':
+                console.log('🎵 Audio delta received, size:', event.audio.byteLength);
+                // Audio already in flight for a cancelled response must not resume playback
+                if (event.itemId && this.interruptedItems.has(event.itemId)) break;
+                this.handleAudioOutput(event.audio);
+                break;
+
+            case 'audio.transcript.delta':
+                if (!event.itemId || event.itemId === this.assistantItemId) {
+                    this.assistantTranscript += event.delta;
                 }
                 break;
+
+            case 'audio.playback.start':
+                this.playbackStartedAt = Date.now();
+                break;
+
+            case 'audio.playback.stop':
+                this.playbackStartedAt = null;
+                break;
                 
-            case 'response.audio.done':
+            case 'audio.done':
                 console.log('🎶 Audio response complete');
                 break;
 
-            case 'response.audio_transcript.done':
+            case 'audio.transcript.done':
                 console.log('🎙️ Assistant audio transcript:', event.transcript);
+                // Interrupted messages were already emitted with what was actually heard
+                if (event.itemId && this.interruptedItems.has(event.itemId)) break;
                 if (event.transcript) {
                     this.emit('message', {
                         type: 'assistant',
@@ -419,62 +889,244 @@ export class WebRTCManager extends EventEmitter {
                 }
                 break;
 
-            case 'response.function_call_arguments.done':
-                console.log('🔧 Tool call arguments complete:', event);
+            case 'tool.call':
+                console.log('🔧 Tool call arguments complete:', raw);
                 this.handleToolCall(event);
                 break;
 
             case 'error':
-                console.error('❌ Realtime API error:', event.error);
+                console.error('❌ Realtime API error:', raw.error || event.message);
                 // Suppress errors during cleanup (e.g., "no active response" when canceling)
-                if (!this.isCleaningUp) {
-                    this.emit('error', new Error(event.error?.message || 'Realtime error'));
+                // and from a barge-in cancel racing the end of the response
+                if (event.code && event.code === this.provider.interruptNotActiveCode) {
+                    console.log('ℹ️ Response already finished before the interrupt');
+                } else if (!this.isCleaningUp) {
+                    this.emit('error', new Error(event.message));
                 } else {
                     console.log('ℹ️ Suppressing error during cleanup (expected behavior)');
                 }
                 break;
 
-            default:
-                console.warn('⚠️ Unhandled realtime event:', event.type, event);
+            case 'ignored':
+                console.log(`ℹ️ Ignoring event: ${raw.type}`);
+                break;
         }
     }
 
-    private async handleToolCall(event: RealtimeEvent): Promise<void> {
-        if (!event.call_id || !event.name || !event.arguments) return;
+    private isAssistantSpeaking(): boolean {
+        return this.transport === 'websocket'
+            ? !!this.audioPlayer?.isPlaying()
+            : this.playbackStartedAt !== null;
+    }
 
-        try {
-            // Process tool call through server
-            const result = await (this.connection as any).processRealtimeToolCall({
-                call_id: event.call_id,
-                name: event.name,
-                arguments: event.arguments
+    /**
+     * The user started talking over the assistant: stop its audio, cut the server-side
+     * item to what was actually played, and keep only the heard part in the transcript
+     */
+    private handleBargeIn(): void {
+        const itemId = this.assistantItemId;
+        if (!itemId || this.interruptedItems.has(itemId) || !this.isAssistantSpeaking()) {
+            return;
+        }
+
+        let audioEndMs: number;
+        let receivedMs: number | null = null;
+        if (this.transport === 'websocket' && this.audioPlayer) {
+            audioEndMs = this.audioPlayer.getPlayedMs();
+            receivedMs = this.audioPlayer.getScheduledMs();
+            this.audioPlayer.stop();
+        } else {
+            audioEndMs = Date.now() - (this.playbackStartedAt as number);
+            this.playbackStartedAt = null;
+        }
+
+        console.log(`✋ Barge-in: truncating ${itemId} at ${audioEndMs}ms`);
+        this.interruptedItems.add(itemId);
+        const events = this.provider.buildInterruptEvents?.(itemId, audioEndMs, this.transport) || [];
+        events.forEach(event => this.sendEvent(event));
+
+        const content = this.truncateTranscript(this.assistantTranscript, audioEndMs, receivedMs);
+        if (content) {
+            this.emit('message', {
+                type: 'assistant',
+                content,
+                source: 'voice',
+                interrupted: true,
+                metadata: { itemId, audioEndMs }
             });
+        }
+        this.emit('response:interrupted', { itemId, audioEndMs, content });
+    }
+
+    private truncateTranscript(transcript: string, playedMs: number, receivedMs: number | null): string {
+        const words = transcript.trim().split(/\s+/).filter(Boolean);
+        const heard = receivedMs
+            ? Math.round(words.length * Math.min(1, playedMs / receivedMs))
+            : Math.round((playedMs / 1000) * WebRTCManager.SPOKEN_WORDS_PER_SECOND);
+
+        if (heard >= words.length) {
+            return words.join(' ');
+        }
+        return heard > 0 ? `${words.slice(0, heard).join(' ')}…` : '';
+    }
+
+    private async handleToolCall(event: Extract<NormalizedRealtimeEvent, { type: 'tool.call' }>): Promise<void> {
+        if (!event.callId || !event.name) return;
+        // Calls of tools without parameters may come with an empty arguments string
+        const args = event.arguments || '{}';
+
+        const policy = this.getToolPolicy(event.name);
+        const request: ToolConfirmationRequest = {
+            callId: event.callId,
+            name: event.name,
+            arguments: this.parseToolArguments(args)
+        };
+
+        if (policy === 'deny') {
+            console.warn(`🚫 Tool "${event.name}" denied by policy`);
+            this.emit('tool:decision', { ...request, approved: false, reason: 'policy' } as ToolDecision);
+            this.sendToolOutput(event.callId, JSON.stringify({
+                error: 'This action is not allowed from this assistant'
+            }));
+            return;
+        }
+
+        if (policy === 'confirm') {
+            const decision = await this.requestToolConfirmation(request);
+            this.emit('tool:decision', decision);
+
+            if (!decision.approved) {
+                console.log(`🚫 Tool "${event.name}" rejected (${decision.reason})`);
+                this.sendToolOutput(event.callId, JSON.stringify({
+                    error: 'The user declined this action'
+                }));
+                return;
+            }
+        }
+
+        const activity: ToolCallActivity = {
+            callId: event.callId,
+            name: event.name,
+            arguments: request.arguments,
+            status: 'running',
+            local: this.tools.has(event.name),
+            startedAt: new Date()
+        };
+        this.emit('tool:start', activity);
+
+        try {
+            let result: any;
+
+            if (activity.local) {
+                // Run browser-side tool registered by the host page
+                console.log(`🔧 Running client tool "${event.name}" locally`);
+                result = await this.tools.execute(event.name, args);
+            } else {
+                // Process tool call through server
+                result = await (this.connection as any).processRealtimeToolCall({
+                    call_id: event.callId,
+                    name: event.name,
+                    arguments: args
+                });
+            }
+
+            this.emit('tool:end', {
+                ...activity,
+                status: 'success',
+                result,
+                duration: Date.now() - activity.startedAt.getTime()
+            } as ToolCallActivity);
+
+            if (policy === 'confirm') {
+                this.emit('tool:result', { callId: event.callId, name: event.name, result });
+            }
 
             // Send result back
-            this.sendEvent({
-                type: 'conversation.item.create',
-                item: {
-                    type: 'function_call_output',
-                    call_id: event.call_id,
-                    output: JSON.stringify(result)
-                }
-            });
+            this.sendToolOutput(event.callId, JSON.stringify(result ?? null));
         } catch (error) {
             console.error('Tool call failed:', error);
+            const message = error instanceof Error ? error.message : 'Tool call failed';
+
+            this.emit('tool:end', {
+                ...activity,
+                status: 'error',
+                error: message,
+                duration: Date.now() - activity.startedAt.getTime()
+            } as ToolCallActivity);
+
+            if (policy === 'confirm') {
+                this.emit('tool:result', { callId: event.callId, name: event.name, error: message });
+            }
             
-            this.sendEvent({
-                type: 'conversation.item.create',
-                item: {
-                    type: 'function_call_output',
-                    call_id: event.call_id,
-                    output: JSON.stringify({
-                        error: error instanceof Error ? error.message : 'Tool call failed'
-                    })
-                }
-            });
+            this.sendToolOutput(event.callId, JSON.stringify({
+                error: message
+            }));
+        }
+    }
+
+    private getToolPolicy(name: string): ToolPolicy {
+        const features = this.config.features;
+        return features?.toolPolicies?.[name] || features?.defaultToolPolicy || 'auto';
+    }
+
+    private parseToolArguments(args: string): any {
+        try {
+            return JSON.parse(args);
+        } catch (error) {
+            return args;
         }
     }
 
+    /**
+     * Pause the tool call until the user approves or rejects it (UI, voice or timeout)
+     */
+    private requestToolConfirmation(request: ToolConfirmationRequest): Promise<ToolDecision> {
+        return new Promise(resolve => {
+            const timeoutMs = this.config.features?.toolConfirmationTimeout || WebRTCManager.DEFAULT_TOOL_CONFIRMATION_TIMEOUT_MS;
+            const timer = setTimeout(() => {
+                console.warn(`⏰ Tool confirmation for "${request.name}" timed out`);
+                this.settleToolConfirmation(request.callId, false, 'timeout');
+            }, timeoutMs);
+
+            this.pendingConfirmations.set(request.callId, { request, resolve, timer });
+
+            console.log(`⏸️ Waiting for user confirmation of tool "${request.name}"`);
+            this.emit('tool:confirm', request);
+        });
+    }
+
+    /**
+     * Approve or reject a pending tool call (called by the UI)
+     */
+    public resolveToolConfirmation(callId: string, approved: boolean): void {
+        this.settleToolConfirmation(callId, approved, 'user');
+    }
+
+    private settleToolConfirmation(callId: string, approved: boolean, reason: ToolDecision['reason']): void {
+        const pending = this.pendingConfirmations.get(callId);
+        if (!pending) return;
+
+        clearTimeout(pending.timer);
+        this.pendingConfirmations.delete(callId);
+        pending.resolve({ ...pending.request, approved, reason });
+    }
+
+    private handleSpokenConfirmation(transcript: string): void {
+        // With several calls waiting a bare "yes" is ambiguous; those are answered on the cards
+        if (this.pendingConfirmations.size !== 1 || !transcript) return;
+
+        const approved = parseSpokenConfirmation(transcript);
+        if (approved === null) return;
+
+        const [callId] = Array.from(this.pendingConfirmations.keys());
+        console.log(`🗣️ Spoken ${approved ? 'approval' : 'rejection'} for pending tool call`);
+        this.settleToolConfirmation(callId, approved, 'voice');
+    }
+
+    private sendToolOutput(callId: string, output: string): void {
+        this.provider.buildToolOutput(callId, output).forEach(event => this.sendEvent(event));
+    }
+
     public async startRecording(): Promise<void> {
         console.log('🎤 Starting recording...');
         if (this.isRecording) {
@@ -497,15 +1149,26 @@ export class WebRTCManager extends EventEmitter {
             console.log('🎙️ Requesting microphone access...');
             // Get user media
             this.mediaStream = await navigator.mediaDevices.getUserMedia({
-                audio: {
-                    echoCancellation: true,
-                    noiseSuppression: true,
-                    autoGainControl: true,
-                    sampleRate: 24000
-                }
+                audio: this.getAudioConstraints()
             });
             console.log('✅ Microphone access granted');
 
+            // Push-to-talk keeps the mic muted until the talk button is held
+            this.talking = false;
+            this.setMicrophoneEnabled(!this.isPushToTalk());
+
+            // WebSocket transport: stream PCM16 frames as realtime events
+            if (this.transport === 'websocket' && this.mediaStream) {
+                console.log('🎵 Streaming microphone as PCM16 over WebSocket');
+                this.audioRecorder = new AudioRecorder((chunk: ArrayBuffer) => {
+                    if (this.isPushToTalk() && !this.talking) return;
+                    if (this.provider.buildAudioAppend) {
+                        this.sendEvent(this.provider.buildAudioAppend(chunk), true);
+                    }
+                });
+                this.audioRecorder.start(this.mediaStream);
+            }
+
             // Add tracks to peer connection
             if (this.pc && this.mediaStream) {
                 const audioTrack = this.mediaStream.getAudioTracks()[0];
@@ -528,6 +1191,7 @@ export class WebRTCManager extends EventEmitter {
                 }
             }
 
+            this.attachInputMeter();
             this.isRecording = true;
             console.log('🔴 Recording started!');
             this.emit('recording:start');
@@ -540,6 +1204,14 @@ export class WebRTCManager extends EventEmitter {
     public stopRecording(): void {
         console.log('🔇 Stopping recording...');
 
+        if (this.audioRecorder) {
+            console.log('🛑 Stopping PCM16 capture...');
+            this.audioRecorder.stop();
+            this.audioRecorder = null;
+        }
+
+        this.inputMeter?.detach();
+
         // ALWAYS stop media tracks regardless of isRecording flag
         // This ensures cleanup works even if tracks were created during setup
         if (this.mediaStream) {
@@ -582,58 +1254,52 @@ export class WebRTCManager extends EventEmitter {
         }
     }
 
-    private base64ToArrayBuffer(base64: string): ArrayBuffer {
-        const binaryString = atob(base64);
-        const bytes = new Uint8Array(binaryString.length);
-        
-        for (let i = 0; i < binaryString.length; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-        }
-        
-        return bytes.buffer;
-    }
-
     public sendTextMessage(text: string): void {
         console.log('💬 Sending text message:', text);
         
-        if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
-            console.error('❌ Cannot send text - data channel not open. State:', this.dataChannel?.readyState);
+        if (!this.isReady()) {
+            console.error(`❌ Cannot send text - ${this.transport} channel not open`);
             throw new Error('Data channel not ready for sending messages');
         }
         
-        const conversationEvent = {
-            type: 'conversation.item.create',
-            item: {
-                type: 'message',
-                role: 'user',
-                content: [{
-                    type: 'input_text',
-                    text
-                }]
-            }
-        };
-        
-        console.log('📤 Sending conversation.item.create event');
-        this.sendEvent(conversationEvent);
-
-        // Trigger response
-        console.log('🎬 Triggering response.create');
-        this.sendEvent({
-            type: 'response.create'
-        });
+        console.log('📤 Sending text message events');
+        this.provider.buildTextMessage(text).forEach(event => this.sendEvent(event));
         
         console.log('✅ Text message sent successfully');
     }
 
+    /**
+     * Replay an earlier transcript into the realtime conversation (no response is requested)
+     */
+    public sendHistory(messages: Message[]): void {
+        if (!this.isReady()) {
+            throw new Error('Data channel not ready for sending messages');
+        }
+        if (!this.provider.buildHistoryEvents) {
+            console.warn(`⚠️ Provider ${this.provider.name} cannot replay history, continuing without it`);
+            return;
+        }
+
+        const events = this.provider.buildHistoryEvents(messages);
+        console.log(`📜 Replaying ${events.length} earlier messages`);
+        events.forEach(event => this.sendEvent(event));
+    }
+
     public async cleanup(): Promise<void> {
         console.log('🧹 Cleaning up WebRTC Manager...');
 
         // Set cleanup flag to suppress expected errors
         this.isCleaningUp = true;
+        navigator.mediaDevices?.removeEventListener('devicechange', this.handleDeviceChange);
+
+        // Reject tool calls still waiting for the user
+        Array.from(this.pendingConfirmations.keys()).forEach(callId => {
+            this.settleToolConfirmation(callId, false, 'timeout');
+        });
 
-        // Step 1: Send stop events to OpenAI before closing connections
+        // Step 1: Send stop events to the provider before closing connections
         // This follows OpenAI Realtime API best practices
-        if (this.dataChannel && this.dataChannel.readyState === 'open') {
+        if (this.isReady()) {
             this.sendStopEvents();
 
             // Wait briefly to ensure events are sent before closing connection
@@ -665,18 +1331,13 @@ export class WebRTCManager extends EventEmitter {
         }
 
         // Step 4: Close the peer connection (this also closes the data channel)
-        // Per OpenAI docs: pc.close() stops transmission and closes the data channel
-        // For ephemeral key sessions, this closure signals OpenAI to terminate the session
-        if (this.pc) {
-            console.log('📡 Closing peer connection (this terminates the OpenAI session)...');
-            this.pc.close();
-            this.pc = null;
-        }
+        this.closePeerConnection();
 
-        // Step 5: Clean up data channel reference (already closed by pc.close())
-        if (this.dataChannel) {
-            console.log('🔌 Clearing data channel reference...');
-            this.dataChannel = null;
+        // Step 5: Close the WebSocket transport if it was used
+        if (this.socket) {
+            console.log('🔌 Closing realtime WebSocket (this terminates the session)...');
+            this.socket.close();
+            this.socket = null;
         }
 
         // Step 6: Clean up audio playback resources
@@ -690,6 +1351,9 @@ export class WebRTCManager extends EventEmitter {
             this.audioElement = null;
         }
 
+        this.stopLevelMetering();
+        this.remoteStream = null;
+
         if (this.audioPlayer) {
             console.log('🎵 Cleaning up audio player...');
             this.audioPlayer.cleanup();
@@ -706,12 +1370,32 @@ export class WebRTCManager extends EventEmitter {
         this.session = null;
         this.callId = null;
         this.audioQueue = [];
+        this.assistantItemId = null;
+        this.assistantTranscript = '';
+        this.playbackStartedAt = null;
+        this.interruptedItems.clear();
 
         // Reset cleanup flag
         this.isCleaningUp = false;
 
         console.log('✅ Cleanup complete - Peer connection closed, all microphone tracks stopped');
     }
+
+    private closePeerConnection(): void {
+        // Per OpenAI docs: pc.close() stops transmission and closes the data channel
+        // For ephemeral key sessions, this closure signals OpenAI to terminate the session
+        if (this.pc) {
+            console.log('📡 Closing peer connection (this terminates the OpenAI session)...');
+            this.pc.close();
+            this.pc = null;
+        }
+
+        // Clean up data channel reference (already closed by pc.close())
+        if (this.dataChannel) {
+            console.log('🔌 Clearing data channel reference...');
+            this.dataChannel = null;
+        }
+    }
 }
 
 /**
@@ -720,10 +1404,22 @@ export class WebRTCManager extends EventEmitter {
 class AudioPlayer {
     private context: AudioContext;
     private nextStartTime = 0;
+    private runStartTime: number | null = null; // Start of the current uninterrupted playback run
+    private sources: Set<AudioBufferSourceNode> = new Set();
+    private output: GainNode;
 
     constructor(context: AudioContext) {
         this.context = context;
         this.nextStartTime = context.currentTime;
+        this.output = context.createGain();
+        this.output.connect(context.destination);
+    }
+
+    /**
+     * Node all playback passes through (for level metering)
+     */
+    public getOutput(): AudioNode {
+        return this.output;
     }
 
     public play(audioData: ArrayBuffer): void {
@@ -742,18 +1438,170 @@ class AudioPlayer {
         // Create and play source
         const source = this.context.createBufferSource();
         source.buffer = audioBuffer;
-        source.connect(this.context.destination);
+        source.connect(this.output);
 
         // Schedule playback
+        if (!this.isPlaying()) {
+            this.runStartTime = Math.max(this.context.currentTime, this.nextStartTime);
+        }
         const startTime = Math.max(this.context.currentTime, this.nextStartTime);
         source.start(startTime);
+        this.sources.add(source);
+        source.onended = () => this.sources.delete(source);
         
         // Update next start time
         this.nextStartTime = startTime + audioBuffer.duration;
     }
 
+    public isPlaying(): boolean {
+        return this.context.currentTime < this.nextStartTime;
+    }
+
+    /**
+     * Milliseconds of the current run already heard
+     */
+    public getPlayedMs(): number {
+        if (this.runStartTime === null) return 0;
+        const now = Math.min(this.context.currentTime, this.nextStartTime);
+        return Math.max(0, Math.round((now - this.runStartTime) * 1000));
+    }
+
+    /**
+     * Milliseconds of the current run received so far (played + still queued)
+     */
+    public getScheduledMs(): number {
+        if (this.runStartTime === null) return 0;
+        return Math.round((this.nextStartTime - this.runStartTime) * 1000);
+    }
+
+    /**
+     * Drop everything still queued (barge-in)
+     */
+    public stop(): void {
+        this.sources.forEach(source => {
+            try {
+                source.stop();
+            } catch {
+                // Already stopped
+            }
+        });
+        this.sources.clear();
+        this.nextStartTime = this.context.currentTime;
+        this.runStartTime = null;
+    }
+
     public cleanup(): void {
+        this.stop();
         // Reset timing
         this.nextStartTime = 0;
     }
+}
+
+/**
+ * RMS level of an audio node, mapped from -60..0 dBFS to 0..1 with a slow decay
+ */
+class AudioLevelMeter {
+    private static readonly FLOOR_DB = -60;
+    private static readonly DECAY = 0.85;
+
+    private analyser: AnalyserNode;
+    private samples: Float32Array<ArrayBuffer>;
+    private source: AudioNode | null = null;
+    private level = 0;
+
+    constructor(context: AudioContext) {
+        this.analyser = context.createAnalyser();
+        this.analyser.fftSize = 512;
+        this.samples = new Float32Array(this.analyser.fftSize);
+    }
+
+    public attach(source: AudioNode): void {
+        this.detach();
+        source.connect(this.analyser);
+        this.source = source;
+    }
+
+    public detach(): void {
+        if (this.source) {
+            this.source.disconnect(this.analyser);
+            this.source = null;
+        }
+        this.level = 0;
+    }
+
+    public read(): number {
+        if (!this.source) return 0;
+
+        this.analyser.getFloatTimeDomainData(this.samples);
+        let sum = 0;
+        for (let i = 0; i < this.samples.length; i++) {
+            sum += this.samples[i] * this.samples[i];
+        }
+        const rms = Math.sqrt(sum / this.samples.length);
+        const db = rms > 0 ? 20 * Math.log10(rms) : AudioLevelMeter.FLOOR_DB;
+        const level = Math.max(0, Math.min(1, 1 - db / AudioLevelMeter.FLOOR_DB));
+
+        // Rise immediately, fall gradually so bars don't flicker between syllables
+        this.level = Math.max(level, this.level * AudioLevelMeter.DECAY);
+        return this.level;
+    }
+}
+
+/**
+ * Microphone capture as PCM16 mono frames at 24kHz for the WebSocket transport
+ */
+class AudioRecorder {
+    private static readonly TARGET_SAMPLE_RATE = 24000;
+
+    private onChunk: (chunk: ArrayBuffer) => void;
+    private context: AudioContext | null = null;
+    private source: MediaStreamAudioSourceNode | null = null;
+    private processor: ScriptProcessorNode | null = null;
+
+    constructor(onChunk: (chunk: ArrayBuffer) => void) {
+        this.onChunk = onChunk;
+    }
+
+    public start(stream: MediaStream): void {
+        this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
+        this.source = this.context.createMediaStreamSource(stream);
+        this.processor = this.context.createScriptProcessor(4096, 1, 1);
+
+        const ratio = this.context.sampleRate / AudioRecorder.TARGET_SAMPLE_RATE;
+
+        this.processor.onaudioprocess = (event) => {
+            const input = event.inputBuffer.getChannelData(0);
+            const length = Math.floor(input.length / ratio);
+            const pcm16 = new Int16Array(length);
+
+            // Downsample to 24kHz and convert Float32 to PCM16
+            for (let i = 0; i < length; i++) {
+                const sample = Math.max(-1, Math.min(1, input[Math.floor(i * ratio)]));
+                pcm16[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+            }
+
+            this.onChunk(pcm16.buffer);
+        };
+
+        this.source.connect(this.processor);
+        this.processor.connect(this.context.destination);
+    }
+
+    public stop(): void {
+        if (this.processor) {
+            this.processor.onaudioprocess = null;
+            this.processor.disconnect();
+            this.processor = null;
+        }
+
+        if (this.source) {
+            this.source.disconnect();
+            this.source = null;
+        }
+
+        if (this.context) {
+            this.context.close();
+            this.context = null;
+        }
+    }
 }
\ No newline at end of file
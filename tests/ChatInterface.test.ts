@@ -0,0 +1,154 @@
+import { ChatInterface } from '../src/ui/ChatInterface';
+import { UICallbacks } from '../src/ui/UIManager';
+import { AudioDevice, ConversationSummary, Message, ToolCallActivity } from '../src/types';
+
+const start = new Date('2025-01-01T10:00:00Z').getTime();
+
+function message(id: string, offsetMs: number): Message {
+    return { id, type: 'user', content: `message ${id}`, timestamp: new Date(start + offsetMs) };
+}
+
+function activity(callId: string, offsetMs: number, status: ToolCallActivity['status'] = 'running'): ToolCallActivity {
+    return { callId, name: `tool_${callId}`, arguments: {}, status, local: false, startedAt: new Date(start + offsetMs) };
+}
+
+const pastConversation: ConversationSummary = {
+    sessionId: 'past',
+    title: 'Past',
+    messageCount: 1,
+    createdAt: new Date(start - 60000),
+    updatedAt: new Date(start - 60000),
+    source: 'local'
+};
+
+function createChat(overrides: Partial<UICallbacks> = {}, showHeader: boolean = true): ChatInterface {
+    // Callbacks not given are no-ops
+    const callbacks = new Proxy(overrides, { get: (target, name) => (target as any)[name] || jest.fn() }) as UICallbacks;
+    return new ChatInterface(document.createElement('div'), { theme: 'light' }, callbacks, showHeader);
+}
+
+// Message ids and tool names in the order the transcript shows them
+function transcript(chat: ChatInterface): string[] {
+    const container = (chat as any).messagesContainer as HTMLElement;
+    return Array.from(container.children).map(element => element.classList.contains('ew-tool-activity')
+        ? element.querySelector('.ew-tool-activity-header span:nth-child(2)')!.textContent!
+        : element.textContent!.match(/message (\w+)/)![1]);
+}
+
+describe('ChatInterface tool activity', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('keeps tool cards between their messages when the transcript is re-rendered', () => {
+        const chat = createChat();
+        chat.setWelcomeDismissed(true);
+        chat.setMessages([message('a', 0)]);
+        chat.showToolActivity(activity('1', 1000));
+        chat.addMessage(message('b', 2000));
+
+        chat.setMessages([message('a', 0), message('b', 2000), message('c', 3000)]);
+        expect(transcript(chat)).toEqual(['a', 'tool_1', 'b', 'c']);
+    });
+
+    it('keeps live tool cards out of a past conversation', () => {
+        const chat = createChat();
+        chat.setWelcomeDismissed(true);
+        chat.setMessages([message('a', 0)]);
+        chat.showToolActivity(activity('1', 1000));
+
+        chat.showConversation(pastConversation, [message('old', -60000)]);
+        chat.showToolActivity(activity('2', 2000));
+        chat.showToolActivity(activity('1', 1000, 'success'));
+        expect(transcript(chat)).toEqual(['old']);
+
+        chat.closeConversation();
+        chat.setMessages([message('a', 0)]);
+        expect(transcript(chat)).toEqual(['a', 'tool_1', 'tool_2']);
+    });
+
+    it('drops tool cards when the transcript is cleared', () => {
+        const chat = createChat();
+        chat.setWelcomeDismissed(true);
+        chat.setMessages([message('a', 0)]);
+        chat.showToolActivity(activity('1', 1000));
+
+        chat.clearMessages();
+        chat.setMessages([message('b', 2000)]);
+        expect(transcript(chat)).toEqual(['b']);
+    });
+});
+
+describe('ChatInterface device menu', () => {
+    const devices: AudioDevice[] = [
+        { deviceId: 'mic-1', label: 'Built-in microphone', kind: 'audioinput' },
+        { deviceId: 'mic-2', label: 'Headset microphone', kind: 'audioinput' },
+        { deviceId: 'speaker-1', label: 'Headset', kind: 'audiooutput' }
+    ];
+
+    function deviceButton(chat: ChatInterface): HTMLButtonElement {
+        const input = (chat as any).inputContainer as HTMLElement;
+        return input.querySelector('.ew-device-button') as HTMLButtonElement;
+    }
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('is reachable from the input bar in voice activity mode', () => {
+        const onInputDeviceChange = jest.fn();
+        const chat = createChat({ onInputDeviceChange }, false);
+        chat.setAudioDevices(devices, { input: null, output: null });
+        chat.setVoiceActive(true);
+
+        const button = deviceButton(chat);
+        expect((button.parentElement as HTMLElement).style.display).not.toBe('none');
+        button.click();
+        expect(button.getAttribute('aria-expanded')).toBe('true');
+
+        const select = button.parentElement!.querySelector('select[aria-label="Microphone"]') as HTMLSelectElement;
+        select.value = 'mic-2';
+        select.dispatchEvent(new Event('change'));
+        expect(onInputDeviceChange).toHaveBeenCalledWith('mic-2');
+    });
+
+    it('stays hidden without devices or voice', () => {
+        const chat = createChat();
+        expect((deviceButton(chat).parentElement as HTMLElement).style.display).toBe('none');
+
+        chat.setAudioDevices(devices, { input: null, output: null });
+        chat.setVoiceEnabled(false);
+        expect((deviceButton(chat).parentElement as HTMLElement).style.display).toBe('none');
+    });
+});
+
+describe('ChatInterface audio levels', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('lights the mic from the measured microphone level', () => {
+        const chat = createChat();
+        chat.setPushToTalk('Space');
+        chat.setVoiceActive(true);
+        const glow = (chat as any).container.querySelector('.ew-glow-ring-1') as HTMLElement;
+
+        chat.setAudioLevels({ input: 0.6, output: 0 });
+        expect(glow.style.opacity).toBe('1');
+
+        chat.setAudioLevels({ input: 0.05, output: 0.7 });
+        expect(glow.style.opacity).toBe('0');
+    });
+});
@@ -0,0 +1,27 @@
+import { mergeMessages } from '../src/core/Conversations';
+import { Message } from '../src/types';
+
+function message(id: string, content: string, time: number): Message {
+    return { id, type: 'user', content, timestamp: new Date(time) };
+}
+
+describe('mergeMessages', () => {
+    it('combines both copies in timestamp order', () => {
+        const merged = mergeMessages(
+            [message('b', 'local', 2000)],
+            [message('a', 'remote', 1000), message('c', 'remote', 3000)]
+        );
+        expect(merged.map(m => m.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('keeps the local copy of a message both sides have', () => {
+        const merged = mergeMessages([message('a', 'local', 1000)], [message('a', 'remote', 1000)]);
+        expect(merged).toHaveLength(1);
+        expect(merged[0].content).toBe('local');
+    });
+
+    it('returns the other side when one is empty', () => {
+        expect(mergeMessages([], [message('a', 'remote', 1000)]).map(m => m.id)).toEqual(['a']);
+        expect(mergeMessages([message('a', 'local', 1000)], []).map(m => m.id)).toEqual(['a']);
+    });
+});
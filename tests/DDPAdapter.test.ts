@@ -0,0 +1,208 @@
+import { DDPAdapter } from '../src/core/DDPAdapter';
+import { DDPError } from '../src/core/DDPError';
+import { TokenProvider } from '../src/core/TokenProvider';
+import { PluginConfig } from '../src/types';
+
+class FakeWebSocket {
+    static readonly OPEN = 1;
+    static instances: FakeWebSocket[] = [];
+
+    readyState = 0;
+    sent: any[] = [];
+    onopen: (() => void) | null = null;
+    onmessage: ((event: { data: string }) => void) | null = null;
+    onerror: ((error: any) => void) | null = null;
+    onclose: (() => void) | null = null;
+
+    constructor(public url: string) {
+        FakeWebSocket.instances.push(this);
+    }
+
+    send(data: string): void {
+        this.sent.push(JSON.parse(data));
+    }
+
+    close(): void {
+        this.readyState = 3;
+    }
+
+    open(): void {
+        this.readyState = FakeWebSocket.OPEN;
+        this.onopen?.();
+    }
+
+    receive(message: any): void {
+        this.onmessage?.({ data: JSON.stringify(message) });
+    }
+
+    drop(): void {
+        this.readyState = 3;
+        this.onclose?.();
+    }
+
+    sentOf(msg: string): any[] {
+        return this.sent.filter(message => message.msg === msg);
+    }
+}
+
+function createAdapter(auth: PluginConfig['auth'] = { type: 'anonymous' }): DDPAdapter {
+    const config: PluginConfig = { endpoint: 'https://example.com', workerId: 'worker-1', auth, features: { reconnect: true } };
+    return new DDPAdapter(config, new TokenProvider(auth));
+}
+
+async function connect(adapter: DDPAdapter): Promise<FakeWebSocket> {
+    const connecting = adapter.connect();
+    const ws = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    ws.open();
+    ws.receive({ msg: 'connected', session: 'ddp-session' });
+    await connecting;
+    return ws;
+}
+
+async function reconnect(): Promise<FakeWebSocket> {
+    await jest.advanceTimersByTimeAsync(1000);
+    const ws = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    ws.open();
+    ws.receive({ msg: 'connected', session: 'ddp-session' });
+    await jest.advanceTimersByTimeAsync(0);
+    return ws;
+}
+
+describe('DDPAdapter', () => {
+    const originalWebSocket = global.WebSocket;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        FakeWebSocket.instances = [];
+        (global as any).WebSocket = FakeWebSocket;
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+        (global as any).WebSocket = originalWebSocket;
+    });
+
+    describe('reconnect', () => {
+        it('resumes the session, resubscribes and replays unanswered calls', async () => {
+            const adapter = createAdapter();
+            const first = await connect(adapter);
+            adapter.subscribe('voice.textReplies', 'session-1');
+            const call = adapter.call('voice.getConversation', ['session-1']);
+            const reconnected = jest.fn();
+            adapter.on('reconnect', reconnected);
+
+            first.drop();
+            expect(adapter.getState()).toBe('reconnecting');
+            const second = await reconnect();
+
+            expect(second.sentOf('connect')[0].session).toBe('ddp-session');
+            expect(second.sentOf('sub')).toEqual([{ msg: 'sub', name: 'voice.textReplies', params: ['session-1'], id: first.sentOf('sub')[0].id }]);
+            const [replayed] = second.sentOf('method');
+            expect(replayed).toMatchObject({ method: 'voice.getConversation', id: first.sentOf('method')[0].id });
+            expect(reconnected).toHaveBeenCalled();
+
+            second.receive({ msg: 'result', id: replayed.id, result: ['message'] });
+            await expect(call).resolves.toEqual(['message']);
+        });
+
+        it('restores subscriptions and calls when the token provider fails', async () => {
+            const token = jest.fn()
+                .mockResolvedValueOnce('token-1')
+                .mockRejectedValueOnce(new Error('token service down'));
+            const adapter = createAdapter({ type: 'token', token });
+            const first = await connect(adapter);
+            await jest.advanceTimersByTimeAsync(0);
+            adapter.subscribe('voice.textReplies', 'session-1');
+            adapter.call('voice.getConversation', ['session-1']).catch(() => {});
+            const errors = jest.fn();
+            adapter.on('error', errors);
+
+            // An expired token is re-resolved on reconnect
+            (adapter as any).tokens.clear();
+            first.drop();
+            const second = await reconnect();
+
+            expect(errors).toHaveBeenCalledWith(expect.objectContaining({ message: 'token service down' }));
+            expect(second.sentOf('sub')).toHaveLength(1);
+            expect(second.sentOf('method').map(message => message.method)).toEqual(['voice.getConversation']);
+        });
+
+        it('rejects pending calls once the deadline passes', async () => {
+            const adapter = createAdapter();
+            const first = await connect(adapter);
+            const call = adapter.call('voice.getConversation', ['session-1'], { timeout: 60000 });
+
+            first.drop();
+            const rejected = expect(call).rejects.toMatchObject({ error: 'connection-lost' });
+            await jest.advanceTimersByTimeAsync(30000);
+            await rejected;
+        });
+    });
+
+    describe('call', () => {
+        it('retries idempotent calls after a timeout', async () => {
+            const adapter = createAdapter();
+            const ws = await connect(adapter);
+
+            const call = adapter.call('voice.getConversation', [], { idempotent: true, retries: 1, timeout: 100, retryDelay: 10 });
+            await jest.advanceTimersByTimeAsync(110);
+            const attempts = ws.sentOf('method');
+            expect(attempts).toHaveLength(2);
+
+            ws.receive({ msg: 'result', id: attempts[1].id, result: 'ok' });
+            await expect(call).resolves.toBe('ok');
+        });
+
+        it('does not retry calls that are not idempotent', async () => {
+            const adapter = createAdapter();
+            const ws = await connect(adapter);
+
+            const call = adapter.call('voice.sendTextMessage', [], { retries: 2, timeout: 100 });
+            const rejected = expect(call).rejects.toBeInstanceOf(DDPError);
+            await jest.advanceTimersByTimeAsync(5000);
+            await rejected;
+            expect(ws.sentOf('method')).toHaveLength(1);
+        });
+
+        it('waits for updated when asked', async () => {
+            const adapter = createAdapter();
+            const ws = await connect(adapter);
+            const settled = jest.fn();
+
+            adapter.call('voice.logMessage', [], { waitForUpdated: true }).then(settled);
+            const [method] = ws.sentOf('method');
+            ws.receive({ msg: 'result', id: method.id, result: 1 });
+            await jest.advanceTimersByTimeAsync(0);
+            expect(settled).not.toHaveBeenCalled();
+
+            ws.receive({ msg: 'updated', methods: [method.id] });
+            await jest.advanceTimersByTimeAsync(0);
+            expect(settled).toHaveBeenCalledWith(1);
+        });
+    });
+
+    describe('subscriptions', () => {
+        it('caches published documents and reports readiness', async () => {
+            const adapter = createAdapter();
+            const ws = await connect(adapter);
+            const handle = adapter.createSubscription('voice.textReplies', ['session-1']);
+            const ready = jest.fn();
+            handle.onReady(ready);
+
+            ws.receive({ msg: 'added', collection: 'textReplies', id: 'r1', fields: { content: 'Hi', done: false } });
+            ws.receive({ msg: 'changed', collection: 'textReplies', id: 'r1', fields: { done: true } });
+            ws.receive({ msg: 'ready', subs: [handle.id] });
+
+            expect(ready).toHaveBeenCalled();
+            expect(handle.ready()).toBe(true);
+            expect(handle.findOne('textReplies', 'r1')).toEqual({ _id: 'r1', content: 'Hi', done: true });
+
+            handle.stop();
+            expect(ws.sentOf('unsub')).toEqual([{ msg: 'unsub', id: handle.id }]);
+        });
+    });
+});
@@ -0,0 +1,153 @@
+import { EverworkerVoicePlugin } from '../src/core/EverworkerVoicePlugin';
+import { StorageManager } from '../src/core/StorageManager';
+import { ConnectionAdapter, Message, StoredConversation } from '../src/types';
+
+const conversation: StoredConversation = {
+    sessionId: 'server-session',
+    title: 'Hello',
+    messageCount: 1,
+    createdAt: new Date('2025-01-01T10:00:00Z'),
+    updatedAt: new Date('2025-01-01T10:00:00Z')
+};
+const serverMessage: Message = { id: 'm1', type: 'user', content: 'Hello', timestamp: conversation.createdAt };
+
+function createPlugin(): EverworkerVoicePlugin {
+    return new EverworkerVoicePlugin({
+        endpoint: 'https://example.com',
+        workerId: 'worker-1',
+        auth: { type: 'token', token: 'static-token' },
+        features: { autoConnect: false }
+    });
+}
+
+function connectTo(plugin: EverworkerVoicePlugin, connection: Partial<ConnectionAdapter>): void {
+    (plugin as any).connection = connection;
+}
+
+// Lets the background history restore settle
+function flush(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('EverworkerVoicePlugin server history', () => {
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+        warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        window.sessionStorage.clear();
+    });
+
+    it('saves the latest server conversation after login', async () => {
+        const plugin = createPlugin();
+        connectTo(plugin, {
+            listConversations: async () => [conversation],
+            getConversation: async () => [serverMessage]
+        });
+        const synced = jest.fn();
+        plugin.on('conversation:synced', synced);
+
+        await plugin.login();
+        await flush();
+
+        expect(synced).toHaveBeenCalledWith({ sessionId: 'server-session', messageCount: 1 });
+        expect((await plugin.storage.loadMessages('server-session')).map(m => m.id)).toEqual(['m1']);
+    });
+
+    it('reports a failing fetch without rejecting', async () => {
+        const plugin = createPlugin();
+        connectTo(plugin, {
+            listConversations: () => Promise.reject(new Error('offline')),
+            getConversation: async () => []
+        });
+
+        await expect(plugin.login()).resolves.toBeUndefined();
+        await flush();
+
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Could not restore conversation history'), expect.objectContaining({ message: 'offline' }));
+    });
+
+    it('reports a failing local store without rejecting', async () => {
+        const plugin = createPlugin();
+        connectTo(plugin, {
+            listConversations: async () => [conversation],
+            getConversation: async () => [serverMessage]
+        });
+        jest.spyOn(plugin.storage, 'loadMessages').mockRejectedValue(new Error('database blocked'));
+        const synced = jest.fn();
+        plugin.on('conversation:synced', synced);
+
+        await expect(plugin.login()).resolves.toBeUndefined();
+        await flush();
+
+        expect(synced).not.toHaveBeenCalled();
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Could not restore conversation history'), expect.objectContaining({ message: 'database blocked' }));
+    });
+});
+
+describe('EverworkerVoicePlugin storage user', () => {
+    const endpoint = 'https://example.com';
+    let signedIn = 'ann';
+
+    function jwt(sub: string): string {
+        return `${btoa('{"alg":"none"}')}.${btoa(JSON.stringify({ sub }))}.signature`;
+    }
+
+    function createSignedInPlugin(): EverworkerVoicePlugin {
+        return new EverworkerVoicePlugin({
+            endpoint,
+            workerId: 'worker-1',
+            auth: { type: 'jwt', token: async () => jwt(signedIn) },
+            features: { autoConnect: false, persistence: 'local', serverHistory: false }
+        });
+    }
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        window.localStorage.clear();
+        window.sessionStorage.clear();
+    });
+
+    it('keeps the conversations of users signing in on one device apart', async () => {
+        signedIn = 'ann';
+        const ann = createSignedInPlugin();
+        await ann.login();
+        await ann.storage.appendMessage('ann-session', serverMessage);
+
+        signedIn = 'bob';
+        const bob = createSignedInPlugin();
+        await bob.login();
+        expect(await bob.storage.listConversations()).toEqual([]);
+        await bob.logout();
+
+        signedIn = 'ann';
+        const returning = createSignedInPlugin();
+        await returning.login();
+        expect((await returning.storage.listConversations()).map(c => c.sessionId)).toEqual(['ann-session']);
+    });
+
+    it('finds a returning OAuth user from the saved login', async () => {
+        new StorageManager('local', { workerId: 'worker-1', endpoint }).saveCredential('auth-token', jwt('ann'));
+        await new StorageManager('local', { workerId: 'worker-1', endpoint, userId: 'ann' }).appendMessage('ann-session', serverMessage);
+
+        const plugin = new EverworkerVoicePlugin({
+            endpoint,
+            workerId: 'worker-1',
+            auth: {
+                type: 'oauth',
+                oauth: { authorizationUrl: `${endpoint}/authorize`, tokenUrl: `${endpoint}/token`, clientId: 'client', redirectUri: `${endpoint}/callback` }
+            },
+            features: { autoConnect: false, persistence: 'local', serverHistory: false }
+        });
+
+        expect((await plugin.storage.listConversations()).map(c => c.sessionId)).toEqual(['ann-session']);
+    });
+});
@@ -0,0 +1,56 @@
+import { OpenAIRealtimeProvider } from '../src/voice/OpenAIRealtimeProvider';
+import { VoiceSession } from '../src/types';
+
+const session: VoiceSession = {
+    client_secret: { value: 'secret', expires_at: 0 },
+    model: 'gpt-realtime',
+    voice: 'alloy',
+    instructions: 'Be brief',
+    sessionId: 'session-1'
+};
+
+describe('OpenAIRealtimeProvider.buildSessionUpdate', () => {
+    const provider = new OpenAIRealtimeProvider();
+
+    it('uses the worker session and server VAD defaults', () => {
+        const update = provider.buildSessionUpdate(session);
+        expect(update.type).toBe('session.update');
+        expect(update.session).toEqual({
+            model: 'gpt-realtime',
+            voice: 'alloy',
+            instructions: 'Be brief',
+            input_audio_format: 'pcm16',
+            output_audio_format: 'pcm16',
+            input_audio_transcription: { model: 'whisper-1' },
+            turn_detection: { type: 'server_vad', threshold: 0.5, prefix_padding_ms: 300, silence_duration_ms: 200 },
+            tools: []
+        });
+    });
+
+    it('applies session options', () => {
+        const { session: update } = provider.buildSessionUpdate(session, {
+            voice: 'verse',
+            transcriptionModel: 'gpt-4o-transcribe',
+            transcriptionLanguage: 'de',
+            temperature: 0.7,
+            maxResponseTokens: 'inf',
+            turnDetection: { type: 'server_vad', silenceDurationMs: 800 }
+        });
+
+        expect(update.voice).toBe('verse');
+        expect(update.input_audio_transcription).toEqual({ model: 'gpt-4o-transcribe', language: 'de' });
+        expect(update.temperature).toBe(0.7);
+        expect(update.max_response_output_tokens).toBe('inf');
+        expect(update.turn_detection).toEqual({ type: 'server_vad', threshold: 0.5, prefix_padding_ms: 300, silence_duration_ms: 800 });
+    });
+
+    it('builds semantic VAD turn detection', () => {
+        const { session: update } = provider.buildSessionUpdate(session, { turnDetection: { type: 'semantic_vad', eagerness: 'low' } });
+        expect(update.turn_detection).toEqual({ type: 'semantic_vad', eagerness: 'low' });
+    });
+
+    it('turns detection off for push to talk', () => {
+        const { session: update } = provider.buildSessionUpdate(session, { turnDetection: { type: 'push_to_talk' } });
+        expect(update.turn_detection).toBeNull();
+    });
+});
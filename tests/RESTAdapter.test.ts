@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import { RESTAdapter } from '../src/core/RESTAdapter';
+
+// An event-stream reply made of the given network chunks; left open unless `close` is set
+function streamedReply(chunks: string[], close: boolean = true): Response {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+            if (close) controller.close();
+        }
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function sendMessage(response: Response) {
+    jest.spyOn(global, 'fetch').mockResolvedValue(response);
+
+    const adapter = new RESTAdapter({ endpoint: 'https://example.com', workerId: 'worker-1' });
+    const deltas: string[] = [];
+    const messages: any[] = [];
+    adapter.on('text:delta', (delta: string) => deltas.push(delta));
+    adapter.on('message', (message: any) => messages.push(message));
+
+    await adapter.sendMessage('Hello', 'session-1');
+    return { deltas, messages };
+}
+
+describe('RESTAdapter text replies', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('streams deltas and emits the finished reply', async () => {
+        const { deltas, messages } = await sendMessage(streamedReply([
+            'data: {"delta":"Hel"}\n\ndata: {"del',
+            'ta":"lo"}\n\n',
+            'data: {"done":true,"id":"reply-1"}\n\n'
+        ]));
+
+        expect(global.fetch).toHaveBeenCalledWith(
+            'https://example.com/api/v1/voice/text-message',
+            expect.objectContaining({ method: 'POST' })
+        );
+        expect(deltas).toEqual(['Hel', 'lo']);
+        expect(messages).toEqual([
+            expect.objectContaining({ id: 'reply-1', type: 'assistant', content: 'Hello', source: 'text' })
+        ]);
+    });
+
+    it('finishes a CRLF-framed reply without waiting for the stream to close', async () => {
+        const { deltas, messages } = await sendMessage(streamedReply([
+            'data: {"delta":"Hi"}\r\n\r',
+            '\ndata: {"delta":" there"}\r\n\r\n',
+            'data: {"done":true}\r\n\r\n'
+        ], false));
+
+        expect(deltas).toEqual(['Hi', ' there']);
+        expect(messages).toEqual([expect.objectContaining({ content: 'Hi there' })]);
+    });
+
+    it('accepts events framed with bare CR', async () => {
+        const { messages } = await sendMessage(streamedReply([
+            'data: {"delta":"Hi"}\r\rdata: {"done":true}\r\r'
+        ], false));
+
+        expect(messages).toEqual([expect.objectContaining({ content: 'Hi' })]);
+    });
+
+    it('skips unreadable events and emits what arrived when the stream ends', async () => {
+        const { deltas, messages } = await sendMessage(streamedReply([
+            ': keep-alive\n\n',
+            'data: not json\n\n',
+            'data: {"delta":"Partial"}\n\n'
+        ]));
+
+        expect(deltas).toEqual(['Partial']);
+        expect(messages).toEqual([expect.objectContaining({ content: 'Partial' })]);
+        expect(console.warn).toHaveBeenCalledWith('REST: Skipping unreadable reply event', 'not json');
+    });
+
+    it('reads a plain JSON reply', async () => {
+        const { deltas, messages } = await sendMessage(new Response(
+            JSON.stringify({ id: 'reply-2', content: 'Done' }),
+            { headers: { 'Content-Type': 'application/json' } }
+        ));
+
+        expect(deltas).toEqual([]);
+        expect(messages).toEqual([expect.objectContaining({ id: 'reply-2', content: 'Done' })]);
+    });
+});
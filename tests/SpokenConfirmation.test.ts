@@ -0,0 +1,21 @@
+import { parseSpokenConfirmation } from '../src/voice/SpokenConfirmation';
+
+describe('parseSpokenConfirmation', () => {
+    it.each(['Yes', 'yes please', 'Okay.', 'Sure, go ahead!', 'do it'])('approves "%s"', transcript => {
+        expect(parseSpokenConfirmation(transcript)).toBe(true);
+    });
+
+    it.each(['No', 'no thanks', 'Cancel.', 'Don’t do it', 'do not'])('rejects "%s"', transcript => {
+        expect(parseSpokenConfirmation(transcript)).toBe(false);
+    });
+
+    it.each([
+        '',
+        'ok so what about my order',
+        "don't forget the receipt",
+        'yes and also book a table for two',
+        'what is the weather'
+    ])('ignores "%s"', transcript => {
+        expect(parseSpokenConfirmation(transcript)).toBeNull();
+    });
+});
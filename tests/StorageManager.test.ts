@@ -0,0 +1,182 @@
+import { StorageManager } from '../src/core/StorageManager';
+import { Message, RetentionPolicy } from '../src/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function message(id: string, content: string = id): Message {
+    return { id, type: 'user', content, timestamp: new Date() };
+}
+
+function createStorage(retention: RetentionPolicy): StorageManager {
+    return new StorageManager('local', { workerId: 'worker-1', endpoint: 'https://example.com' }, retention);
+}
+
+async function sessionIds(storage: StorageManager): Promise<string[]> {
+    return (await storage.listConversations()).map(conversation => conversation.sessionId);
+}
+
+describe('StorageManager retention', () => {
+    beforeEach(() => {
+        jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        window.localStorage.clear();
+    });
+
+    it('keeps the most recently updated conversations', async () => {
+        const storage = createStorage({ maxConversations: 2 });
+        for (const sessionId of ['a', 'b', 'c']) {
+            await storage.appendMessage(sessionId, message(`${sessionId}-1`));
+            jest.advanceTimersByTime(1000);
+        }
+
+        await storage.prune();
+        expect(await sessionIds(storage)).toEqual(['c', 'b']);
+    });
+
+    it('drops conversations not updated within maxAge', async () => {
+        const storage = createStorage({ maxAge: 7 * DAY });
+        await storage.appendMessage('old', message('old-1'));
+        jest.advanceTimersByTime(8 * DAY);
+        await storage.appendMessage('recent', message('recent-1'));
+
+        await storage.prune();
+        expect(await sessionIds(storage)).toEqual(['recent']);
+    });
+
+    it('never drops the active conversation', async () => {
+        const storage = createStorage({ maxConversations: 1, maxAge: DAY });
+        await storage.appendMessage('active', message('active-1'));
+        jest.advanceTimersByTime(2 * DAY);
+        await storage.appendMessage('other', message('other-1'));
+
+        await storage.prune('active');
+        expect(await sessionIds(storage)).toEqual(['other', 'active']);
+    });
+
+    it('trims the oldest messages beyond maxMessagesPerConversation', async () => {
+        const storage = createStorage({ maxMessagesPerConversation: 2 });
+        for (const id of ['1', '2', '3']) {
+            await storage.appendMessage('a', message(id));
+        }
+
+        await storage.prune('a');
+        expect((await storage.loadMessages('a')).map(m => m.id)).toEqual(['2', '3']);
+        expect((await storage.listConversations())[0].messageCount).toBe(2);
+    });
+
+    it('only touches its own namespace', async () => {
+        const storage = createStorage({ maxConversations: 1 });
+        const otherWorker = new StorageManager('local', { workerId: 'worker-2', endpoint: 'https://example.com' });
+        await otherWorker.appendMessage('x', message('x-1'));
+        await storage.appendMessage('a', message('a-1'));
+        await storage.appendMessage('b', message('b-1'));
+
+        await storage.prune();
+        expect(await sessionIds(otherWorker)).toEqual(['x']);
+    });
+});
+
+// The legacy transcript is only claimed by a lone instance, so these start from a fresh instance registry
+function isolatedStorageManager(): typeof StorageManager {
+    let isolated!: typeof StorageManager;
+    jest.isolateModules(() => {
+        isolated = require('../src/core/StorageManager').StorageManager;
+    });
+    return isolated;
+}
+
+describe('StorageManager legacy keys', () => {
+    const namespace = { workerId: 'worker-1', endpoint: 'https://example.com' };
+    const legacy = [message('1', 'Hello'), message('2', 'Hi there')];
+
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        window.localStorage.setItem('everworker-voice-messages', JSON.stringify(legacy));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        window.localStorage.clear();
+        window.sessionStorage.clear();
+    });
+
+    it('turns the earlier transcript into a conversation', async () => {
+        const Isolated = isolatedStorageManager();
+        const storage = new Isolated('local', namespace);
+
+        const [conversation] = await storage.listConversations();
+        expect(conversation.sessionId).toMatch(/^imported-/);
+        expect((await storage.loadMessages(conversation.sessionId)).map(m => m.content)).toEqual(['Hello', 'Hi there']);
+        expect(window.localStorage.getItem('everworker-voice-messages')).toBeNull();
+    });
+
+    it('leaves the earlier transcript alone when several instances share the page', async () => {
+        const Isolated = isolatedStorageManager();
+        const storage = new Isolated('local', namespace);
+        new Isolated('local', { ...namespace, workerId: 'worker-2' });
+
+        expect(await storage.listConversations()).toEqual([]);
+        expect(window.localStorage.getItem('everworker-voice-messages')).not.toBeNull();
+    });
+
+    it('carries over a dismissed welcome', () => {
+        window.sessionStorage.setItem('ew-welcome-dismissed', 'true');
+        const storage = new StorageManager('local', namespace);
+        expect(storage.loadSessionItem('welcome-dismissed')).toBe(true);
+    });
+});
+
+describe('StorageManager namespaces', () => {
+    const endpoint = 'https://example.com';
+
+    afterEach(() => {
+        window.localStorage.clear();
+        window.sessionStorage.clear();
+    });
+
+    it('lists only the keys of its worker, endpoint and user', async () => {
+        const storage = new StorageManager('local', { workerId: 'worker-1', endpoint, userId: 'ann' });
+        const otherUser = new StorageManager('local', { workerId: 'worker-1', endpoint, userId: 'bob' });
+        storage.saveConfig('voice', 'verse');
+        storage.saveSessionItem('welcome-dismissed', true);
+        await storage.appendMessage('a', message('a-1'));
+        otherUser.saveConfig('voice', 'alloy');
+
+        const prefix = `everworker-voice/worker-1/${encodeURIComponent(endpoint)}/ann/`;
+        expect(storage.keys().sort()).toEqual([
+            `${prefix}conversation-a`,
+            `${prefix}conversations`,
+            `${prefix}voice`,
+            `${prefix}welcome-dismissed`
+        ]);
+    });
+
+    it('keeps sign-in state with the configured user when moving to the signed-in one', () => {
+        const storage = new StorageManager('local', { workerId: 'worker-1', endpoint });
+        storage.saveCredential('auth-token', 'token');
+        storage.saveConfig('voice', 'alloy');
+
+        expect(storage.setUserId('ann')).toBe(true);
+        expect(storage.setUserId('ann')).toBe(false);
+        expect(storage.loadCredential('auth-token')).toBe('token');
+        expect(storage.loadConfig('voice')).toBeNull();
+    });
+
+    it('clears only the current user and its sign-in state', async () => {
+        const anonymous = new StorageManager('local', { workerId: 'worker-1', endpoint });
+        await anonymous.appendMessage('shared', message('shared-1'));
+
+        const storage = new StorageManager('local', { workerId: 'worker-1', endpoint });
+        storage.saveCredential('auth-token', 'token');
+        storage.setUserId('ann');
+        await storage.appendMessage('a', message('a-1'));
+
+        await storage.clear();
+        expect(storage.keys()).toEqual([]);
+        expect(storage.loadCredential('auth-token')).toBeNull();
+        expect((await anonymous.listConversations()).map(c => c.sessionId)).toEqual(['shared']);
+    });
+});
@@ -0,0 +1,116 @@
+import { TokenProvider } from '../src/core/TokenProvider';
+import { StorageManager } from '../src/core/StorageManager';
+
+function jwt(claims: Record<string, any>): string {
+    const encode = (value: object) => btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+    return `${encode({ alg: 'none' })}.${encode(claims)}.signature`;
+}
+
+function expiringIn(ms: number): string {
+    return jwt({ exp: Math.floor((Date.now() + ms) / 1000) });
+}
+
+describe('TokenProvider', () => {
+    afterEach(() => {
+        window.localStorage.clear();
+        window.sessionStorage.clear();
+    });
+
+    it('returns a static token without refreshing it', async () => {
+        const tokens = new TokenProvider({ type: 'token', token: 'static' });
+        expect(await tokens.getToken()).toBe('static');
+        expect(tokens.canRefresh()).toBe(false);
+    });
+
+    it('has no token for anonymous auth', async () => {
+        expect(await new TokenProvider({ type: 'anonymous' }).getToken()).toBeUndefined();
+    });
+
+    it('reuses a function token until shortly before its exp', async () => {
+        const token = jest.fn().mockResolvedValue(expiringIn(10 * 60 * 1000));
+        const tokens = new TokenProvider({ type: 'jwt', token });
+
+        await tokens.getToken();
+        await tokens.getToken();
+        expect(token).toHaveBeenCalledTimes(1);
+    });
+
+    it('refreshes a function token within a minute of its exp', async () => {
+        const token = jest.fn()
+            .mockResolvedValueOnce(expiringIn(30 * 1000))
+            .mockResolvedValueOnce(expiringIn(10 * 60 * 1000));
+        const tokens = new TokenProvider({ type: 'jwt', token });
+        const refreshed = jest.fn();
+        tokens.on('refreshed', refreshed);
+
+        const first = await tokens.getToken();
+        const second = await tokens.getToken();
+        expect(second).not.toBe(first);
+        expect(token).toHaveBeenCalledTimes(2);
+        expect(refreshed).toHaveBeenCalledWith(second);
+    });
+
+    it('keeps opaque tokens until they are refreshed explicitly', async () => {
+        const token = jest.fn().mockResolvedValueOnce('opaque-1').mockResolvedValueOnce('opaque-2');
+        const tokens = new TokenProvider({ type: 'token', token });
+
+        expect(await tokens.getToken()).toBe('opaque-1');
+        expect(await tokens.getToken()).toBe('opaque-1');
+        expect(await tokens.refresh()).toBe('opaque-2');
+    });
+
+    it('shares one refresh between concurrent callers', async () => {
+        const token = jest.fn().mockResolvedValue('opaque');
+        const tokens = new TokenProvider({ type: 'token', token });
+
+        await Promise.all([tokens.refresh(), tokens.refresh(), tokens.getToken()]);
+        expect(token).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries once with a fresh token when a request is unauthorized', async () => {
+        const token = jest.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+        const tokens = new TokenProvider({ type: 'token', token });
+        const request = jest.fn()
+            .mockRejectedValueOnce(new Error('401'))
+            .mockResolvedValueOnce('ok');
+
+        await expect(tokens.withRetry(request, error => error.message === '401')).resolves.toBe('ok');
+        expect(request).toHaveBeenNthCalledWith(1, 'old');
+        expect(request).toHaveBeenNthCalledWith(2, 'new');
+    });
+
+    it('logs in through the handler and persists the token', async () => {
+        const storage = new StorageManager('local', { workerId: 'worker-1', endpoint: 'https://example.com' });
+        const tokens = new TokenProvider({ type: 'password', credentials: { username: 'ann', password: 'secret' } }, storage);
+        const handler = jest.fn().mockResolvedValue('login-token');
+
+        expect(await tokens.getToken()).toBeUndefined();
+        tokens.setLoginHandler(handler);
+        expect(await tokens.getToken()).toBe('login-token');
+
+        const returning = new TokenProvider({ type: 'password' }, storage);
+        expect(returning.getStoredToken()).toBe('login-token');
+
+        tokens.clear();
+        expect(new TokenProvider({ type: 'password' }, storage).getStoredToken()).toBeUndefined();
+    });
+
+    it('only removes the login handler it was given', () => {
+        const tokens = new TokenProvider({ type: 'password' });
+        const first = jest.fn().mockResolvedValue('a');
+        const second = jest.fn().mockResolvedValue('b');
+
+        tokens.setLoginHandler(first);
+        tokens.setLoginHandler(second);
+        tokens.removeLoginHandler(first);
+        expect(tokens.canRefresh()).toBe(true);
+
+        tokens.removeLoginHandler(second);
+        expect(tokens.canRefresh()).toBe(false);
+    });
+
+    it('reads the subject of a JWT', () => {
+        expect(TokenProvider.decodeSubject(jwt({ sub: 'user-1' }))).toBe('user-1');
+        expect(TokenProvider.decodeSubject('opaque')).toBeNull();
+    });
+});
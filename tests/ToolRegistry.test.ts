@@ -0,0 +1,81 @@
+import { ToolRegistry } from '../src/voice/ToolRegistry';
+import { ClientTool } from '../src/types';
+
+function tool(name: string, handler: ClientTool['handler'], extra: Partial<ClientTool> = {}): ClientTool {
+    return { name, description: `${name} tool`, handler, ...extra };
+}
+
+describe('ToolRegistry', () => {
+    let registry: ToolRegistry;
+
+    beforeEach(() => {
+        registry = new ToolRegistry();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it('requires a name and a handler', () => {
+        expect(() => registry.register({ name: '', description: '', handler: () => null })).toThrow();
+        expect(() => registry.register({ name: 'broken', description: '' } as any)).toThrow();
+    });
+
+    it('runs the handler with parsed arguments', async () => {
+        const handler = jest.fn(({ city }) => `Sunny in ${city}`);
+        registry.register(tool('get_weather', handler));
+
+        await expect(registry.execute('get_weather', '{"city":"Oslo"}')).resolves.toBe('Sunny in Oslo');
+        expect(handler).toHaveBeenCalledWith({ city: 'Oslo' });
+    });
+
+    it('passes empty arguments as an empty object', async () => {
+        const handler = jest.fn(() => 'ok');
+        registry.register(tool('get_time', handler));
+
+        await registry.execute('get_time', '');
+        expect(handler).toHaveBeenCalledWith({});
+    });
+
+    it('rejects invalid JSON arguments without running the handler', async () => {
+        const handler = jest.fn();
+        registry.register(tool('get_weather', handler));
+
+        await expect(registry.execute('get_weather', '{city:')).rejects.toThrow('Invalid arguments for tool get_weather');
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown tools', async () => {
+        await expect(registry.execute('missing', '{}')).rejects.toThrow('Unknown client tool: missing');
+    });
+
+    it('times out slow handlers', async () => {
+        jest.useFakeTimers();
+        registry.register(tool('slow', () => new Promise(() => {}), { timeout: 500 }));
+
+        const result = expect(registry.execute('slow', '{}')).rejects.toThrow('Tool slow timed out after 500ms');
+        await jest.advanceTimersByTimeAsync(500);
+        await result;
+    });
+
+    it('surfaces handler errors', async () => {
+        registry.register(tool('failing', () => { throw new Error('no stock'); }));
+        await expect(registry.execute('failing', '{}')).rejects.toThrow('no stock');
+    });
+
+    it('merges definitions with local tools winning on name clash', () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        registry.register(tool('get_weather', () => null, { parameters: { type: 'object', properties: { city: { type: 'string' } } } }));
+        registry.register(tool('get_time', () => null));
+
+        const merged = registry.mergeDefinitions([
+            { type: 'function', name: 'get_weather', description: 'server weather' },
+            { type: 'function', name: 'lookup_order', description: 'server orders' }
+        ]);
+
+        expect(merged.map(definition => definition.name)).toEqual(['lookup_order', 'get_weather', 'get_time']);
+        expect(merged[1].description).toBe('get_weather tool');
+        expect(merged[2].parameters).toEqual({ type: 'object', properties: {} });
+    });
+});
@@ -0,0 +1,76 @@
+import { formatTranscript, TranscriptInfo } from '../src/core/Transcript';
+import { Message } from '../src/types';
+
+const start = new Date('2025-01-01T10:00:00Z');
+const info: TranscriptInfo = { workerId: 'worker-1', sessionId: 'session-1', exportedAt: start };
+
+function message(id: string, type: Message['type'], content: string, offsetMs: number, extra: Partial<Message> = {}): Message {
+    return { id, type, content, timestamp: new Date(start.getTime() + offsetMs), source: 'voice', ...extra };
+}
+
+describe('formatTranscript', () => {
+    const messages = [
+        message('1', 'user', 'Hello there', 0),
+        message('2', 'assistant', 'Hi! How can I help?', 2000, { interrupted: true }),
+        message('3', 'system', 'Tool call approved', 3000),
+        message('4', 'user', 'Typed <b>bold</b>', 5000, { source: 'text' })
+    ];
+
+    it('keeps every field in JSON', () => {
+        const data = JSON.parse(formatTranscript(messages, 'json', info));
+        expect(data.workerId).toBe('worker-1');
+        expect(data.sessionId).toBe('session-1');
+        expect(data.exportedAt).toBe(start.toISOString());
+        expect(data.messages).toHaveLength(4);
+        expect(data.messages[1]).toMatchObject({ id: '2', type: 'assistant', interrupted: true, timestamp: '2025-01-01T10:00:02.000Z' });
+    });
+
+    it('writes one line per message in text', () => {
+        const lines = formatTranscript(messages, 'text', info).trim().split('\n');
+        expect(lines).toHaveLength(6);
+        expect(lines[2]).toMatch(/\] You: Hello there$/);
+        expect(lines[3]).toMatch(/\] Assistant: Hi! How can I help\? \(interrupted\)$/);
+    });
+
+    it('times WebVTT cues from the first spoken turn', () => {
+        const vtt = formatTranscript(messages, 'vtt', info);
+        expect(vtt).toBe([
+            'WEBVTT',
+            '',
+            '1',
+            '00:00:00.000 --> 00:00:02.000',
+            '<v You>Hello there',
+            '',
+            '2',
+            '00:00:02.000 --> 00:00:04.000',
+            '<v Assistant>Hi! How can I help?',
+            ''
+        ].join('\n'));
+    });
+
+    it('keeps a multi-line message inside one WebVTT cue', () => {
+        const vtt = formatTranscript([message('1', 'assistant', 'First\n\nSecond <line>', 0)], 'vtt', info);
+        expect(vtt).toContain('<v Assistant>First\nSecond &lt;line&gt;\n');
+        expect(vtt).not.toContain('First\n\n');
+    });
+
+    it('quotes multi-line Markdown turns', () => {
+        const markdown = formatTranscript([
+            message('1', 'user', 'One line', 0),
+            message('2', 'assistant', 'Steps:\n\n- one\n- two', 1000)
+        ], 'markdown', info);
+
+        expect(markdown).toMatch(/\*\*You\*\* \(.+\): One line\n/);
+        expect(markdown).toMatch(/\*\*Assistant\*\* \(.+\):\n> Steps:\n>\n> - one\n> - two\n/);
+    });
+
+    it('escapes message content in HTML', () => {
+        const html = formatTranscript(messages, 'html', info);
+        expect(html).toContain('Typed &lt;b&gt;bold&lt;/b&gt;');
+        expect(html).toContain('<div class="message system">');
+    });
+
+    it('rejects unknown formats', () => {
+        expect(() => formatTranscript(messages, 'pdf' as any, info)).toThrow('Unknown transcript format: pdf');
+    });
+});
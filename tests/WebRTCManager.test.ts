@@ -0,0 +1,51 @@
+import { WebRTCManager } from '../src/voice/WebRTCManager';
+import { ToolRegistry } from '../src/voice/ToolRegistry';
+import { ConnectionAdapter, PluginConfig } from '../src/types';
+
+const config: PluginConfig = { endpoint: 'https://example.com', workerId: 'worker-1' };
+
+function createManager(tools: ToolRegistry, connection: Partial<ConnectionAdapter> = {}): { manager: WebRTCManager; sent: any[] } {
+    const manager = new WebRTCManager(config, connection as ConnectionAdapter, tools);
+    const sent: any[] = [];
+    jest.spyOn(manager as any, 'sendEvent').mockImplementation(event => sent.push(event));
+    return { manager, sent };
+}
+
+function callTool(manager: WebRTCManager, name: string, args: string): Promise<void> {
+    return (manager as any).handleToolCall({ type: 'tool.call', callId: 'call-1', name, arguments: args });
+}
+
+describe('WebRTCManager tool calls', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('answers a call that comes without arguments', async () => {
+        const tools = new ToolRegistry();
+        const handler = jest.fn(() => '10:30');
+        tools.register({ name: 'get_time', description: 'Current time', handler });
+        const { manager, sent } = createManager(tools);
+
+        await callTool(manager, 'get_time', '');
+
+        expect(handler).toHaveBeenCalledWith({});
+        expect(sent[0]).toEqual({
+            type: 'conversation.item.create',
+            item: { type: 'function_call_output', call_id: 'call-1', output: '"10:30"' }
+        });
+    });
+
+    it('sends server tools empty arguments as an empty object', async () => {
+        const processRealtimeToolCall = jest.fn().mockResolvedValue({ ok: true });
+        const { manager, sent } = createManager(new ToolRegistry(), { processRealtimeToolCall } as any);
+
+        await callTool(manager, 'list_orders', '');
+
+        expect(processRealtimeToolCall).toHaveBeenCalledWith({ call_id: 'call-1', name: 'list_orders', arguments: '{}' });
+        expect(sent[0].item.output).toBe('{"ok":true}');
+    });
+});